@@ -0,0 +1,15 @@
+import { ObjectId } from 'mongodb';
+
+export type KnowledgeChunkEditAction = 'create' | 'update' | 'delete';
+
+export interface KnowledgeChunkEdit {
+  _id?: ObjectId;
+  uid: string;
+  uuid: string; // Chunk the edit applies to
+  action: KnowledgeChunkEditAction;
+  userId: string; // User who made the edit
+  previousContent?: string; // Content before an update or delete; the first update keeps the ingested text
+  content?: string; // Content after a create or update, as stored (redacted)
+  sourceId?: string; // Source the chunk was extracted from, if any
+  createdAt: Date;
+}
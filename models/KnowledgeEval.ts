@@ -0,0 +1,48 @@
+import { ObjectId } from 'mongodb';
+
+import { ChunkingConfig, EmbeddingTarget, RetrievalMode } from './KnowledgeOptions';
+
+export interface KnowledgeEvalQuestion {
+  query: string;
+  expectedChunks?: string[]; // Chunk uuids; only valid until the source is ingested again
+  expectedSources?: string[]; // Source names (file name or URL) an answer should come from
+  keywords?: string[]; // Answer keywords a relevant chunk contains, all of them
+}
+
+export interface KnowledgeEvalSet {
+  _id?: ObjectId;
+  uid: string;
+  name: string;
+  questions: KnowledgeEvalQuestion[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface KnowledgeEvalQuestionResult {
+  query: string;
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+  retrieved: string[]; // Uuids of the retrieved chunks, best first
+  relevant: number[]; // 1-based ranks of the retrieved chunks that matched an expectation
+}
+
+export interface KnowledgeEvalMetrics {
+  recall: number; // Mean recall@k
+  mrr: number; // Mean reciprocal rank of the first relevant chunk
+  ndcg: number; // Mean nDCG@k
+}
+
+export interface KnowledgeEvalRun extends KnowledgeEvalMetrics {
+  _id?: ObjectId;
+  uid: string;
+  set: string;
+  label: string; // Configuration the run measured, e.g. "live" or a config name
+  k: number;
+  mode: RetrievalMode;
+  rerank: boolean;
+  chunking?: ChunkingConfig; // Set when the corpus was ingested for the run
+  embedding?: Required<EmbeddingTarget>;
+  questions: KnowledgeEvalQuestionResult[];
+  createdAt: Date;
+}
@@ -0,0 +1,30 @@
+import { ObjectId } from 'mongodb';
+
+export type CrawledPageStatus = 'scraped' | 'skipped' | 'failed';
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  status: CrawledPageStatus;
+  characters?: number;
+  reason?: string;
+  statusCode?: number; // HTTP status of the page, when a response was received
+}
+
+// Outcome of a scheduled fetch of a URL source
+export type KnowledgeFetchStatus = 'unchanged' | 'updated' | 'failed';
+
+export interface KnowledgeFetch {
+  _id?: ObjectId;
+  uid: string;
+  sourceId: string;
+  url: string;
+  status: KnowledgeFetchStatus;
+  statusCode?: number; // HTTP status of the source URL
+  pages: CrawledPage[]; // Every page fetched, with its HTTP status
+  contentHash?: string; // SHA-256 of the fetched text
+  documentsCreated?: number; // Chunks embedded when the content changed
+  error?: string;
+  fetchedAt: Date;
+  durationMs: number;
+}
@@ -0,0 +1,61 @@
+import { ObjectId } from 'mongodb';
+
+import { CrawledPage } from './KnowledgeFetch';
+import { ChunkingConfig, CrawlOptions, EmbeddingTarget } from './KnowledgeOptions';
+import { RedactionCounts, RedactionPolicy } from './KnowledgeRedactionPolicy';
+
+export type KnowledgeJobKind = 'upload' | 'scrape-url' | 'scrape' | 'reindex';
+
+export type KnowledgeJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export type KnowledgeJobItemState = 'queued' | 'parsing' | 'embedding' | 'done' | 'failed';
+
+export interface KnowledgeJobItem {
+  type: string; // "file"/"url" for uploads and scrape-url, the item type for scrape, "uid" for reindex
+  name: string; // File name, URL or item name; the uid to re-index for reindex jobs
+  value?: string; // URL to fetch
+  archive?: string; // Uploaded archive the file was extracted from
+  folder?: string; // Folder path of the file within its archive
+  fileId?: ObjectId; // Uploaded file stored in GridFS until the item is processed
+  size?: number;
+  state: KnowledgeJobItemState;
+  outcome?: string; // "added", "updated", "unchanged" or "skipped" for syncs, "reindexed" for reindex
+  sourceId?: string;
+  documentsCreated?: number;
+  failedIndices?: number[];
+  redactions?: RedactionCounts; // Personal data redacted from the item per PII type
+  pages?: CrawledPage[]; // Pages visited when crawling from this URL
+  error?: string;
+}
+
+export interface KnowledgeJobCounters {
+  total: number;
+  queued: number;
+  parsing: number;
+  embedding: number;
+  done: number;
+  failed: number;
+}
+
+export interface KnowledgeJob {
+  _id?: ObjectId;
+  kind: KnowledgeJobKind;
+  uid: string; // "*" for reindex jobs over all uids
+  status: KnowledgeJobStatus;
+  chunking?: ChunkingConfig; // Unset for reindex jobs
+  embedding?: Required<EmbeddingTarget>; // Target model of reindex jobs
+  redaction?: RedactionPolicy; // Policy of the uid when the job was queued
+  crawl?: Required<CrawlOptions>; // Set when scrape-url jobs crawl from their URLs
+  items: KnowledgeJobItem[];
+  counters: KnowledgeJobCounters;
+  documentsCreated: number;
+  sourcesRemoved?: { id: string; name: string; chunksDeleted: number }[];
+  error?: string;
+  workerId?: string;
+  heartbeatAt?: Date;
+  attempts: number;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
@@ -0,0 +1,30 @@
+// Options stored with knowledge sources, jobs and evaluation runs, so they can be
+// applied again the same way
+
+export type ChunkingStrategy = 'paragraph' | 'sentence' | 'token' | 'heading';
+
+export interface ChunkingConfig {
+  strategy: ChunkingStrategy;
+  params: {
+    chunkSize?: number;
+    chunkOverlap?: number;
+  };
+}
+
+export type EmbeddingProviderName = 'openai' | 'azure' | 'local';
+
+// Provider, model and dimension chunks are embedded with, e.g. the target of a re-index
+export interface EmbeddingTarget {
+  provider?: EmbeddingProviderName;
+  model?: string;
+  dimension?: number;
+}
+
+export interface CrawlOptions {
+  maxDepth?: number; // Link hops from the start URLs (0 only scrapes the start URLs)
+  maxPages?: number; // Pages fetched per scrape, including the start URLs
+  sitemap?: boolean; // Also queue the URLs listed in sitemap.xml
+  robots?: boolean; // Respect robots.txt
+}
+
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
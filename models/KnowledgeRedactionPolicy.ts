@@ -0,0 +1,19 @@
+import { ObjectId } from 'mongodb';
+
+export type PiiType = 'email' | 'phone' | 'card' | 'iban' | 'ssn' | 'ip';
+
+export type RedactionMode = 'off' | 'mask' | 'tokenize';
+
+export interface RedactionPolicy {
+  mode: RedactionMode;
+  types: PiiType[];
+}
+
+// Values redacted per PII type
+export type RedactionCounts = Partial<Record<PiiType, number>>;
+
+export interface KnowledgeRedactionPolicy extends RedactionPolicy {
+  _id?: ObjectId;
+  uid: string;
+  updatedAt: Date;
+}
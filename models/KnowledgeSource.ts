@@ -0,0 +1,41 @@
+import { ObjectId } from 'mongodb';
+
+import { KnowledgeFetchStatus } from './KnowledgeFetch';
+import { ChunkingConfig, CrawlOptions } from './KnowledgeOptions';
+import { RedactionPolicy } from './KnowledgeRedactionPolicy';
+
+export type KnowledgeSourceType = 'file' | 'url';
+
+// Process that owns a source and may replace or delete it on its own
+export type KnowledgeSourceManager = 'character';
+
+// Schedule on which a URL source is fetched again
+export interface KnowledgeSourceRefresh {
+  schedule: string; // Five-field cron expression
+  timezone?: string; // IANA time zone of the schedule, server time when unset
+  lastFetchedAt?: Date;
+  lastStatus?: KnowledgeFetchStatus;
+  lastChangedAt?: Date; // Last fetch whose content differed from the stored version
+}
+
+export interface KnowledgeSource {
+  _id?: ObjectId;
+  uid: string;
+  type: KnowledgeSourceType;
+  name: string; // Original filename or URL
+  origin?: string; // URL the content was fetched from, used to match re-synced items
+  managedBy?: KnowledgeSourceManager; // Set on sources created by character sync
+  archive?: string; // Name of the uploaded archive the file was extracted from
+  folder?: string; // Folder path of the file within its archive, "" at the root
+  format: string; // File extension, or "html" for URLs
+  size: number; // Bytes of the original file or of the extracted page text
+  contentHash: string; // SHA-256 of the original file bytes or extracted page text
+  chunkCount: number;
+  chunking?: ChunkingConfig;
+  redaction?: RedactionPolicy; // Policy the content was redacted with before chunking
+  language?: string; // ISO 639-1 code detected for the content, "und" when unknown
+  crawl?: Required<CrawlOptions>; // Set when a URL was crawled from, to fetch it again the same way
+  refresh?: KnowledgeSourceRefresh; // URL sources only
+  ingestedAt: Date;
+  updatedAt: Date;
+}
@@ -1,2 +1,9 @@
 export * from './Agent';
+export * from './KnowledgeChunkEdit';
+export * from './KnowledgeEval';
+export * from './KnowledgeFetch';
+export * from './KnowledgeJob';
+export * from './KnowledgeOptions';
+export * from './KnowledgeRedactionPolicy';
+export * from './KnowledgeSource';
 export * from './User';
@@ -0,0 +1,85 @@
+/**
+ * Agent Access
+ * Ownership check shared by every route that reads or writes the knowledge of an agent
+ *
+ * Features:
+ * - Knowledge uids are agent ids; access is granted to the user who owns the agent
+ * - Sends the 401, 404 or 403 response itself, so routes only have to return
+ * - Public routes can verify the JWT only for requests that touch knowledge
+ */
+import { Response } from 'express';
+import { ObjectId } from 'mongodb';
+
+import { connectToDatabase } from '../config';
+import { Agent } from '../models';
+import { AuthRequest, authMiddleware } from './authRoutes';
+
+/**
+ * Check that the authenticated user owns the agent a knowledge uid belongs to
+ * Ownership is verified through the agents collection, as in POST /api/agents/save.
+ * Sends the error response and returns false when access is denied.
+ */
+export async function authorizeAgent(
+  req: AuthRequest,
+  res: Response,
+  uid: string,
+): Promise<boolean> {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    res.status(401).json({
+      success: false,
+      error: 'User not authenticated',
+    });
+
+    return false;
+  }
+
+  let agent: Agent | null = null;
+
+  // Knowledge uids are agent ids
+  if (ObjectId.isValid(uid) && uid.length === 24) {
+    const db = await connectToDatabase();
+    agent = await db.collection<Agent>('agents').findOne({ _id: new ObjectId(uid) });
+  }
+
+  if (!agent) {
+    res.status(404).json({
+      success: false,
+      error: 'Agent not found',
+    });
+
+    return false;
+  }
+
+  if (agent.userId.toString() !== userId) {
+    res.status(403).json({
+      success: false,
+      error: 'Not authorized to access the knowledge of this agent',
+    });
+
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Verify the JWT of a request to a public route, then check agent ownership
+ * For routes that only need authentication when they read knowledge, e.g. chat
+ * grounded in the knowledge of an agent.
+ */
+export async function authenticateAgent(
+  req: AuthRequest,
+  res: Response,
+  uid: string,
+): Promise<boolean> {
+  let authenticated = false;
+
+  // authMiddleware sends the 401 itself and only calls next for a valid token
+  await authMiddleware(req, res, () => {
+    authenticated = true;
+  });
+
+  return authenticated && authorizeAgent(req, res, uid);
+}
@@ -1,7 +1,16 @@
 import axios, { AxiosResponse } from 'axios';
-import express, { Request, Response, Router } from 'express';
+import express, { Response, Router } from 'express';
 
+import {
+  KnowledgeCitation,
+  buildKnowledgeContext,
+  createKnowledgeSearch,
+  extractQueryFromMessages,
+  validateChatKnowledgeOptions,
+} from '../services';
 import { createScopedLogger } from '../utils';
+import { authenticateAgent } from './agentAccess';
+import { AuthRequest } from './authRoutes';
 
 const logger = createScopedLogger('routes/anthropicRoutes');
 const router: Router = express.Router();
@@ -9,8 +18,8 @@ const router: Router = express.Router();
 const ANTHROPIC_API_URL: string = 'https://api.anthropic.com/v1/messages';
 const ANTHROPIC_API_KEY: string = process.env.ANTHROPIC_API_KEY || '';
 
-// Chat completion
-router.post('/chat', async (req: Request, res: Response): Promise<void> => {
+// Chat completion, optionally grounded in the knowledge of an agent the caller owns
+router.post('/chat', async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const {
       messages,
@@ -18,6 +27,7 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
       temperature = 0.7,
       max_tokens = 1000,
       system,
+      knowledge,
     } = req.body;
 
     if (!ANTHROPIC_API_KEY) {
@@ -29,6 +39,43 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    const knowledgeError = validateChatKnowledgeOptions(knowledge);
+    if (knowledgeError) {
+      res.status(400).json({
+        success: false,
+        error: knowledgeError,
+      });
+
+      return;
+    }
+
+    let systemPrompt = system;
+    let citations: KnowledgeCitation[] | undefined;
+
+    if (knowledge && !(await authenticateAgent(req, res, knowledge.uid))) {
+      return;
+    }
+
+    if (knowledge) {
+      const context = await buildKnowledgeContext(createKnowledgeSearch(), {
+        uid: knowledge.uid,
+        topK: knowledge.topK,
+        rerank: knowledge.rerank,
+        query: extractQueryFromMessages(messages),
+      });
+
+      if (context.prompt) {
+        // `system` may be a plain string or an array of text blocks
+        if (Array.isArray(system)) {
+          systemPrompt = [...system, { type: 'text', text: context.prompt }];
+        } else {
+          systemPrompt = system ? `${system}\n\n${context.prompt}` : context.prompt;
+        }
+      }
+
+      citations = context.citations;
+    }
+
     const headers = {
       'Content-Type': 'application/json',
       'x-api-key': ANTHROPIC_API_KEY,
@@ -42,7 +89,7 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
         messages,
         max_tokens,
         temperature,
-        system,
+        system: systemPrompt,
       },
       { headers },
     );
@@ -50,6 +97,7 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
     res.json({
       success: true,
       data,
+      ...(citations && { citations }),
     });
   } catch (error) {
     logger.error('Error calling Anthropic API:', error);
@@ -1,18 +1,78 @@
 /**
  * Knowledge Upload Routes
- * Handles uploading knowledge files (PDF, DOCX, DOC, TXT) and automatically creates RAG data
+ * Handles uploading knowledge files (PDF, DOCX, DOC, TXT, Markdown, HTML, CSV, PPTX, XLSX),
+ * including ZIP archives of them, expanded with guards against zip bombs and path traversal,
+ * automatically creates RAG data, manages knowledge sources and serves semantic search over them,
+ * exports/imports the knowledge of a user as JSONL bundles and re-indexes it into a new
+ * embedding model
+ * Single chunks can be edited, added and deleted by hand, with an audit trail of every edit
+ * URL sources can be fetched again on a cron schedule, with a history of every fetch
+ * Personal data is redacted from ingested content according to the policy of each user
+ * Every route requires authentication and only acts on agents owned by the caller
  */
 import axios from 'axios';
-import express, { Request, RequestHandler, Response, Router } from 'express';
+import { once } from 'events';
+import express, { RequestHandler, Response, Router } from 'express';
+import { WithId } from 'mongodb';
 import multer from 'multer';
 
-import { RAGBuilder, WebScraper, fileParser, tokenizeParagraphs } from '../services';
+import { KnowledgeJob, KnowledgeSource } from '../models';
+import {
+  ARCHIVE_FORMATS,
+  ArchiveEntryResult,
+  BUNDLE_DUPLICATE_MODES,
+  BundleDuplicateMode,
+  BundleLineError,
+  CharacterKnowledgeItem,
+  ChunkEditContext,
+  ChunkingConfig,
+  ChunkingOptions,
+  CrawlOptions,
+  NewKnowledgeJob,
+  RETRIEVAL_MODES,
+  RedactionCounts,
+  RedactionOptions,
+  RedactionPolicy,
+  RefreshSchedule,
+  SUPPORTED_FILE_FORMATS,
+  addChunk,
+  addRedactionCounts,
+  createKnowledgeChunkEditStore,
+  createKnowledgeFetchStore,
+  createKnowledgeJobStore,
+  createKnowledgeSearch,
+  createKnowledgeSourceStore,
+  createRAGBuilder,
+  createRedactionPolicyStore,
+  deleteChunk,
+  editChunk,
+  expandZipArchive,
+  exportKnowledgeBundle,
+  fileParser,
+  importKnowledgeBundle,
+  isArchive,
+  readBundleLines,
+  resolveChunkingConfig,
+  resolveCrawlOptions,
+  resolveEmbeddingTarget,
+  resolveRedactionPolicy,
+  resolveRefreshSchedule,
+  validateBundleHeader,
+} from '../services';
 import { createScopedLogger } from '../utils';
+import { authorizeAgent } from './agentAccess';
+import { AuthRequest, authMiddleware } from './authRoutes';
 
 const logger = createScopedLogger('routes/knowledgeRoutes');
 
 const router: Router = express.Router();
 
+// Longest content accepted for a chunk edited or added by hand
+const MAX_CHUNK_CONTENT_LENGTH = 20000;
+
+// Every knowledge route acts on behalf of an authenticated agent owner
+router.use(authMiddleware);
+
 // Configure multer for file uploads
 const storage = multer.memoryStorage();
 const upload = multer({
@@ -21,15 +81,120 @@ const upload = multer({
     fileSize: 50 * 1024 * 1024, // 50MB file size limit for knowledge files
   },
   fileFilter: (_req, file, cb) => {
-    // Check if file format is supported
-    if (fileParser.isSupportedFormat(file.originalname)) {
+    // Check if file format is supported; archives are expanded into supported files
+    if (fileParser.isSupportedFormat(file.originalname) || isArchive(file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error('Unsupported file format. Supported formats: PDF, DOCX, DOC, TXT'));
+      cb(
+        new Error(
+          `Unsupported file format. Supported formats: ${[...SUPPORTED_FILE_FORMATS, ...ARCHIVE_FORMATS].join(', ')}`,
+        ),
+      );
     }
   },
 });
 
+/**
+ * Read the chunking options of a request
+ * Multipart uploads send `chunking` as a JSON string, JSON routes as an object
+ */
+function parseChunkingConfig(body: Record<string, unknown>): ChunkingConfig {
+  let chunking = body.chunking ?? {};
+
+  if (typeof chunking === 'string') {
+    try {
+      chunking = JSON.parse(chunking);
+    } catch {
+      throw new Error('chunking must be a JSON object');
+    }
+  }
+
+  if (typeof chunking !== 'object' || chunking === null || Array.isArray(chunking)) {
+    throw new Error('chunking must be a JSON object');
+  }
+
+  return resolveChunkingConfig(chunking as ChunkingOptions);
+}
+
+/**
+ * Read the crawl options of a request
+ * `crawl` may be omitted/false (exact URLs only), true (defaults) or an options object
+ */
+function parseCrawlOptions(body: Record<string, unknown>): NewKnowledgeJob['crawl'] {
+  const { crawl } = body;
+
+  if (crawl === undefined || crawl === false) {
+    return undefined;
+  }
+
+  if (crawl === true) {
+    return resolveCrawlOptions();
+  }
+
+  if (typeof crawl !== 'object' || crawl === null || Array.isArray(crawl)) {
+    throw new Error('crawl must be a boolean or a JSON object');
+  }
+
+  return resolveCrawlOptions(crawl as CrawlOptions);
+}
+
+/**
+ * Check the content of a chunk edited or added by hand
+ * Returns an error message, or null when the content is valid
+ */
+function validateChunkContent(content: unknown): string | null {
+  if (typeof content !== 'string' || content.trim().length === 0) {
+    return 'content is required and must be a non-empty string';
+  }
+
+  if (content.length > MAX_CHUNK_CONTENT_LENGTH) {
+    return `content must be at most ${MAX_CHUNK_CONTENT_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Services a manual chunk edit of a uid works with; new content is redacted with
+ * the policy of the uid, like ingested content
+ */
+async function createChunkEditContext(uid: string): Promise<ChunkEditContext> {
+  return {
+    builder: createRAGBuilder(uid),
+    sources: createKnowledgeSourceStore(),
+    edits: createKnowledgeChunkEditStore(),
+    redaction: await createRedactionPolicyStore().getPolicy(uid),
+  };
+}
+
+/**
+ * Transform a source record for API responses (_id to id)
+ */
+function serializeSource({ _id, ...source }: WithId<KnowledgeSource>) {
+  return { id: _id.toString(), ...source };
+}
+
+/**
+ * Transform a job for API responses (_id to id, internal fields removed)
+ */
+function serializeJob({
+  _id,
+  items,
+  workerId: _workerId,
+  heartbeatAt: _heartbeatAt,
+  ...job
+}: WithId<KnowledgeJob>) {
+  const redactions: RedactionCounts = {};
+  items.forEach((item) => addRedactionCounts(redactions, item.redactions ?? {}));
+
+  return {
+    id: _id.toString(),
+    ...job,
+    items: items.map(({ fileId: _fileId, ...item }) => item),
+    redactions,
+  };
+}
+
 interface _KnowledgeUploadResponse {
   success: boolean;
   message?: string;
@@ -38,14 +203,26 @@ interface _KnowledgeUploadResponse {
   error?: string;
 }
 
+// Outcome of one entry of an uploaded archive
+interface UploadArchiveEntry extends ArchiveEntryResult {
+  archive: string;
+}
+
 /**
  * POST /api/knowledge/upload
  * Upload one or more knowledge files and automatically create RAG data per user
+ * ZIP archives are expanded and each supported entry is queued as a file, keeping its
+ * folder path on the source; `entries` reports the outcome of every archive entry, and
+ * unsupported or rejected entries are also listed as failed items of the job
  */
 router.post(
   '/upload',
   upload.array('files', 10) as unknown as RequestHandler, // Allow up to 10 files
-  async (req: Request, res: Response): Promise<void> => {
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    // Keep the files in GridFS so the job survives a server restart
+    const jobs = createKnowledgeJobStore();
+    const items: NewKnowledgeJob['items'] = [];
+
     try {
       // Check if files exist in request
       if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
@@ -59,7 +236,7 @@ router.post(
 
       // Check if uid is provided
       const uid = req.body.uid;
-      if (!uid) {
+      if (!uid || typeof uid !== 'string') {
         res.status(400).json({
           success: false,
           error: 'uid is required',
@@ -68,6 +245,23 @@ router.post(
         return;
       }
 
+      if (!(await authorizeAgent(req, res, uid))) {
+        return;
+      }
+
+      // Resolve the chunking strategy
+      let chunking: ChunkingConfig;
+      try {
+        chunking = parseChunkingConfig(req.body);
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid chunking options',
+        });
+
+        return;
+      }
+
       // Check if DATABASE_URL is set
       const mongodbUrl = process.env.DATABASE_URL;
       if (!mongodbUrl) {
@@ -79,55 +273,87 @@ router.post(
         return;
       }
 
-      // Get optional parameters from request body
-      const databaseName = process.env.DATABASE_NAME || 'nfa';
-      const collectionName = process.env.DATABASE_COLLECTION || 'knowledges';
-      const embeddingsDimension = 1536;
-      const embeddingsModel = 'text-embedding-3-small';
-
-      // Create RAG builder with uid
-      const builder = new RAGBuilder({
-        mongodbUrl,
-        databaseName,
-        collectionName,
-        embeddingsDimension,
-        embeddingsModel,
-        uid,
-      });
+      const redaction = await createRedactionPolicyStore().getPolicy(uid);
+      const entries: UploadArchiveEntry[] = [];
 
-      let totalParagraphs = 0;
-      const processedFiles: string[] = [];
-
-      // Process each file
       for (const file of req.files) {
+        if (!isArchive(file.originalname)) {
+          const fileId = await jobs.saveUpload(file.buffer, file.originalname);
+          items.push({ type: 'file', name: file.originalname, fileId, size: file.size });
+          continue;
+        }
+
+        const archive = file.originalname;
+        let results: ArchiveEntryResult[];
         try {
-          // Parse the file to extract text content
-          const textContent = await fileParser.parseFile(file.buffer, file.originalname);
-
-          if (textContent && textContent.trim().length > 0) {
-            // Tokenize the content into paragraphs
-            const paragraphs = tokenizeParagraphs(textContent);
-
-            if (paragraphs.length > 0) {
-              await builder.buildFromTexts(paragraphs, false);
-              totalParagraphs += paragraphs.length;
-              processedFiles.push(file.originalname);
-            }
-          }
+          results = await expandZipArchive(file.buffer, async (entry) => {
+            const fileId = await jobs.saveUpload(entry.buffer, entry.name);
+            items.push({
+              type: 'file',
+              name: entry.name,
+              archive,
+              folder: entry.folder,
+              fileId,
+              size: entry.buffer.length,
+            });
+          });
         } catch (error) {
-          logger.error(`Error processing ${file.originalname}:`, error);
-          // Continue with other files
+          results = [
+            {
+              path: archive,
+              status: 'rejected',
+              reason: error instanceof Error ? error.message : 'Could not expand the archive',
+            },
+          ];
+        }
+
+        for (const result of results) {
+          entries.push({ archive, ...result });
+
+          if (result.status === 'unsupported' || result.status === 'rejected') {
+            items.push({
+              type: 'file',
+              name: result.path,
+              archive,
+              state: 'failed',
+              error: result.reason,
+            });
+          }
         }
       }
 
-      res.json({
+      const queued = items.filter((item) => item.state === undefined).length;
+
+      if (queued === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'No supported files found in the uploaded archives',
+          entries,
+        });
+
+        return;
+      }
+
+      const job = await jobs.createJob({ kind: 'upload', uid, chunking, redaction, items });
+
+      res.status(202).json({
         success: true,
-        message: `Processed ${processedFiles.length} files successfully`,
-        filesProcessed: processedFiles,
-        documentsCreated: totalParagraphs,
+        message: `Queued ${queued} files for processing`,
+        jobId: job._id.toString(),
+        chunking,
+        redaction,
+        ...(entries.length > 0 && { entries }),
       });
     } catch (error) {
-      logger.error('Error processing knowledge files:', error);
+      logger.error('Error queueing knowledge files:', error);
+
+      // No job refers to the files stored so far
+      for (const item of items) {
+        if (item.fileId) {
+          await jobs.deleteUpload(item.fileId);
+        }
+      }
+
       res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -139,26 +365,124 @@ router.post(
 /**
  * POST /api/knowledge/scrape-url
  * Scrape content from one or more URLs and automatically create RAG data per user
+ * With `crawl`, same-origin links and sitemap.xml entries are followed from each URL
+ * and the job reports every page that was crawled
+ */
+router.post(
+  '/scrape-url',
+  express.json(),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { urls, uid } = req.body;
+
+      // Validate URLs
+      if (!urls || !Array.isArray(urls) || urls.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'URLs array is required and must not be empty',
+        });
+
+        return;
+      }
+
+      // Check if uid is provided
+      if (!uid || typeof uid !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'uid is required',
+        });
+
+        return;
+      }
+
+      if (!(await authorizeAgent(req, res, uid))) {
+        return;
+      }
+
+      // Resolve the chunking strategy and crawl options
+      let chunking: ChunkingConfig;
+      let crawl: NewKnowledgeJob['crawl'];
+      try {
+        chunking = parseChunkingConfig(req.body);
+        crawl = parseCrawlOptions(req.body);
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid options',
+        });
+
+        return;
+      }
+
+      // Check if DATABASE_URL is set
+      const mongodbUrl = process.env.DATABASE_URL;
+      if (!mongodbUrl) {
+        res.status(500).json({
+          success: false,
+          error: 'DATABASE_URL not configured. Please set DATABASE_URL in environment variables.',
+        });
+
+        return;
+      }
+
+      const redaction = await createRedactionPolicyStore().getPolicy(uid);
+      const job = await createKnowledgeJobStore().createJob({
+        kind: 'scrape-url',
+        uid,
+        chunking,
+        redaction,
+        ...(crawl && { crawl }),
+        items: urls.map((url: string) => ({ type: 'url', name: url, value: url })),
+      });
+
+      res.status(202).json({
+        success: true,
+        message: `Queued ${urls.length} URLs for processing`,
+        jobId: job._id.toString(),
+        chunking,
+        redaction,
+        ...(crawl && { crawl }),
+      });
+    } catch (error) {
+      logger.error('Error queueing URLs:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  },
+);
+
+/**
+ * POST /api/knowledge/scrape
+ * Fetch character JSON from S3 and incrementally sync its knowledge items (files and URLs)
  */
-router.post('/scrape-url', express.json(), async (req: Request, res: Response): Promise<void> => {
+router.post('/scrape', express.json(), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { urls, uid } = req.body;
+    const { uid, url } = req.body;
 
-    // Validate URLs
-    if (!urls || !Array.isArray(urls) || urls.length === 0) {
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
       res.status(400).json({
         success: false,
-        error: 'URLs array is required and must not be empty',
+        error: 'uid is required',
       });
 
       return;
     }
 
-    // Check if uid is provided
-    if (!uid) {
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    // Resolve the chunking strategy
+    let chunking: ChunkingConfig;
+    try {
+      chunking = parseChunkingConfig(req.body);
+    } catch (error) {
       res.status(400).json({
         success: false,
-        error: 'uid is required',
+        error: error instanceof Error ? error.message : 'Invalid chunking options',
       });
 
       return;
@@ -175,57 +499,53 @@ router.post('/scrape-url', express.json(), async (req: Request, res: Response):
       return;
     }
 
-    // Get optional parameters from request body
-    const databaseName = process.env.DATABASE_NAME || 'nfa';
-    const collectionName = process.env.DATABASE_COLLECTION || 'knowledges';
-    const embeddingsDimension = 1536;
-    const embeddingsModel = 'text-embedding-3-small';
+    // Fetch character JSON from S3
+    let characterData: any;
+    try {
+      const response = await axios.get(url);
+      characterData = response.data;
+    } catch (error) {
+      res.status(404).json({
+        success: false,
+        error: `Failed to fetch character data from IPFS: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      });
 
-    // Create RAG builder with uid
-    const builder = new RAGBuilder({
-      mongodbUrl,
-      databaseName,
-      collectionName,
-      embeddingsDimension,
-      embeddingsModel,
-      uid,
-    });
+      return;
+    }
 
-    let totalParagraphs = 0;
-    const processedUrls: string[] = [];
+    // Check if knowledge array exists
+    if (!characterData.agent.knowledge || !Array.isArray(characterData.agent.knowledge)) {
+      res.status(400).json({
+        success: false,
+        error: 'No knowledge items found in character data',
+      });
 
-    // Process each URL
-    for (const url of urls) {
-      try {
-        // Scrape the URL
-        const scraper = new WebScraper({ urls: [url] });
-        await scraper.scrape();
-        const content = scraper.getContent();
-
-        if (content && content.trim().length > 0) {
-          // Tokenize the content into paragraphs
-          const paragraphs = tokenizeParagraphs(content);
-
-          if (paragraphs.length > 0) {
-            await builder.buildFromTexts(paragraphs, false);
-            totalParagraphs += paragraphs.length;
-            processedUrls.push(url);
-          }
-        }
-      } catch (error) {
-        logger.error(`Error processing ${url}:`, error);
-        // Continue with other URLs
-      }
+      return;
     }
 
-    res.json({
+    // Diff the knowledge list against the stored sources in the background and only
+    // embed what changed
+    const items: CharacterKnowledgeItem[] = characterData.agent.knowledge;
+    const redaction = await createRedactionPolicyStore().getPolicy(uid);
+    const job = await createKnowledgeJobStore().createJob({
+      kind: 'scrape',
+      uid,
+      chunking,
+      redaction,
+      items: items.map(({ type, name, value }) => ({ type, name, value })),
+    });
+
+    res.status(202).json({
       success: true,
-      message: `Processed ${processedUrls.length} URLs successfully`,
-      urlsProcessed: processedUrls,
-      documentsCreated: totalParagraphs,
+      message: `Queued ${items.length} knowledge items for syncing`,
+      jobId: job._id.toString(),
+      chunking,
+      redaction,
     });
   } catch (error) {
-    logger.error('Error processing URLs:', error);
+    logger.error('Error queueing knowledge items:', error);
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -234,15 +554,16 @@ router.post('/scrape-url', express.json(), async (req: Request, res: Response):
 });
 
 /**
- * POST /api/knowledge/scrape
- * Fetch character JSON from S3 and process all knowledge items (files and URLs)
+ * POST /api/knowledge/reindex
+ * Re-embed all chunks of a user with the configured embedding model in the background
+ * The new chunks replace the old ones in a single switch-over once all are embedded
  */
-router.post('/scrape', express.json(), async (req: Request, res: Response): Promise<void> => {
+router.post('/reindex', express.json(), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { uid, url } = req.body;
+    const { uid } = req.body;
 
     // Check if uid is provided
-    if (!uid) {
+    if (!uid || typeof uid !== 'string') {
       res.status(400).json({
         success: false,
         error: 'uid is required',
@@ -251,123 +572,1120 @@ router.post('/scrape', express.json(), async (req: Request, res: Response): Prom
       return;
     }
 
-    // Check if DATABASE_URL is set
-    const mongodbUrl = process.env.DATABASE_URL;
-    if (!mongodbUrl) {
-      res.status(500).json({
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    const embedding = resolveEmbeddingTarget();
+    const job = await createKnowledgeJobStore().createJob({
+      kind: 'reindex',
+      uid,
+      embedding,
+      items: [{ type: 'uid', name: uid }],
+    });
+
+    res.status(202).json({
+      success: true,
+      message: `Queued re-index into ${embedding.model} (${embedding.dimension} dimensions)`,
+      jobId: job._id.toString(),
+      embedding,
+    });
+  } catch (error) {
+    logger.error('Error queueing knowledge re-index:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/knowledge/redaction
+ * Get the PII redaction policy applied to the knowledge ingested for a user
+ */
+router.get('/redaction', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const uid = req.query.uid;
+
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
+      res.status(400).json({
         success: false,
-        error: 'DATABASE_URL not configured. Please set DATABASE_URL in environment variables.',
+        error: 'uid is required',
       });
 
       return;
     }
 
-    // Fetch character JSON from S3
-    let characterData: any;
-    try {
-      const response = await axios.get(url);
-      characterData = response.data;
-    } catch (error) {
-      res.status(404).json({
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    const store = createRedactionPolicyStore();
+    const stored = await store.getStoredPolicy(uid);
+
+    res.json({
+      success: true,
+      redaction: await store.getPolicy(uid),
+      isDefault: !stored,
+    });
+  } catch (error) {
+    logger.error('Error fetching redaction policy:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PUT /api/knowledge/redaction
+ * Set the PII redaction policy of a user (`mode`: off, mask or tokenize; `types`)
+ * Applies to knowledge ingested from now on; re-sync or re-upload to redact existing sources
+ */
+router.put('/redaction', express.json(), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { uid, mode, types } = req.body;
+
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
+      res.status(400).json({
         success: false,
-        error: `Failed to fetch character data from IPFS: ${
-          error instanceof Error ? error.message : 'Unknown error'
-        }`,
+        error: 'uid is required',
       });
 
       return;
     }
 
-    // Check if knowledge array exists
-    if (!characterData.agent.knowledge || !Array.isArray(characterData.agent.knowledge)) {
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    let redaction: RedactionPolicy;
+    try {
+      redaction = resolveRedactionPolicy({ mode, types } as RedactionOptions);
+    } catch (error) {
       res.status(400).json({
         success: false,
-        error: 'No knowledge items found in character data',
+        error: error instanceof Error ? error.message : 'Invalid redaction policy',
       });
 
       return;
     }
 
-    // Get optional parameters
-    const databaseName = process.env.DATABASE_NAME || 'nfa';
-    const collectionName = process.env.DATABASE_COLLECTION || 'knowledges';
-    const embeddingsDimension = 1536;
-    const embeddingsModel = 'text-embedding-3-small';
+    await createRedactionPolicyStore().setPolicy(uid, redaction);
 
-    // Create RAG builder with uid
-    const builder = new RAGBuilder({
-      mongodbUrl,
-      databaseName,
-      collectionName,
-      embeddingsDimension,
-      embeddingsModel,
-      uid,
+    res.json({
+      success: true,
+      redaction,
+    });
+  } catch (error) {
+    logger.error('Error saving redaction policy:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/knowledge/redaction
+ * Remove the redaction policy of a user, so the default policy applies again
+ */
+router.delete('/redaction', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const uid = req.query.uid;
+
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'uid is required',
+      });
+
+      return;
+    }
+
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    await createRedactionPolicyStore().deletePolicy(uid);
+
+    res.json({
+      success: true,
+      redaction: resolveRedactionPolicy(),
+    });
+  } catch (error) {
+    logger.error('Error deleting redaction policy:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/knowledge/jobs/:id
+ * Report the progress of a knowledge ingestion job
+ */
+router.get('/jobs/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const job = await createKnowledgeJobStore().getJob(req.params.id);
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: 'Knowledge job not found',
+      });
+
+      return;
+    }
+
+    if (!(await authorizeAgent(req, res, job.uid))) {
+      return;
+    }
+
+    res.json({
+      success: true,
+      job: serializeJob(job),
+    });
+  } catch (error) {
+    logger.error('Error fetching knowledge job:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/knowledge/sources
+ * List the knowledge sources (files and URLs) of a user
+ */
+router.get('/sources', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const uid = req.query.uid;
+
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'uid is required',
+      });
+
+      return;
+    }
+
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    const sources = await createKnowledgeSourceStore().listSources(uid);
+
+    res.json({
+      success: true,
+      sources: sources.map(serializeSource),
+    });
+  } catch (error) {
+    logger.error('Error listing knowledge sources:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/knowledge/sources/:sourceId/chunks
+ * Inspect the chunks extracted from a single knowledge source
+ */
+router.get('/sources/:sourceId/chunks', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const uid = req.query.uid;
+    const { sourceId } = req.params;
+    const limit = parseInt(String(req.query.limit ?? '100'), 10);
+    const offset = parseInt(String(req.query.offset ?? '0'), 10);
+
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'uid is required',
+      });
+
+      return;
+    }
+
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 500 || isNaN(offset) || offset < 0) {
+      res.status(400).json({
+        success: false,
+        error: 'limit must be between 1 and 500 and offset must not be negative',
+      });
+
+      return;
+    }
+
+    const store = createKnowledgeSourceStore();
+    const source = await store.getSource(uid, sourceId);
+
+    if (!source) {
+      res.status(404).json({
+        success: false,
+        error: 'Knowledge source not found',
+      });
+
+      return;
+    }
+
+    const { chunks, total } = await store.getSourceChunks(uid, sourceId, { limit, offset });
+
+    res.json({
+      success: true,
+      source: serializeSource(source),
+      chunks,
+      total,
+    });
+  } catch (error) {
+    logger.error('Error fetching knowledge source chunks:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
     });
+  }
+});
+
+/**
+ * PUT /api/knowledge/sources/:sourceId/refresh
+ * Fetch a URL source again on a schedule (`schedule`: five-field cron expression,
+ * optional `timezone`); the source is re-embedded when its content changed
+ */
+router.put(
+  '/sources/:sourceId/refresh',
+  express.json(),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { uid, schedule, timezone } = req.body;
+      const { sourceId } = req.params;
 
-    // Clean up existing knowledge for this uid before adding new ones
-    const _deletedCount = await builder.cleanupByUid(uid);
+      // Check if uid is provided
+      if (!uid || typeof uid !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'uid is required',
+        });
 
-    let totalParagraphs = 0;
-    const processedItems: { type: string; name: string; status: string }[] = [];
+        return;
+      }
 
-    // Process each knowledge item
-    for (const item of characterData.agent.knowledge) {
-      const { type, name, value } = item;
+      if (!(await authorizeAgent(req, res, uid))) {
+        return;
+      }
 
+      let refresh: RefreshSchedule;
       try {
-        if (type === 'url') {
-          // Process URL
-          const scraper = new WebScraper({ urls: [value] });
-          await scraper.scrape();
-          const content = scraper.getContent();
-
-          if (content && content.trim().length > 0) {
-            const paragraphs = tokenizeParagraphs(content);
-            if (paragraphs.length > 0) {
-              await builder.buildFromTexts(paragraphs, false);
-              totalParagraphs += paragraphs.length;
-              processedItems.push({ type, name, status: 'success' });
-            }
-          }
-        } else if (['pdf', 'doc', 'docx', 'txt'].includes(type)) {
-          // Process file from S3 URL
-          const fileResponse = await axios.get(value, {
-            responseType: 'arraybuffer',
-          });
-          const fileBuffer = Buffer.from(fileResponse.data);
-
-          // Parse the file to extract text content
-          const textContent = await fileParser.parseFile(fileBuffer, name);
-
-          if (textContent && textContent.trim().length > 0) {
-            const paragraphs = tokenizeParagraphs(textContent);
-            if (paragraphs.length > 0) {
-              await builder.buildFromTexts(paragraphs, false);
-              totalParagraphs += paragraphs.length;
-              processedItems.push({ type, name, status: 'success' });
-            }
-          }
-        }
+        refresh = resolveRefreshSchedule({ schedule, timezone });
       } catch (error) {
-        logger.error(`Error processing ${name}:`, error);
-        processedItems.push({
-          type,
-          name,
-          status: `failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid refresh schedule',
+        });
+
+        return;
+      }
+
+      const store = createKnowledgeSourceStore();
+      const source = await store.getSource(uid, sourceId);
+
+      if (!source) {
+        res.status(404).json({
+          success: false,
+          error: 'Knowledge source not found',
+        });
+
+        return;
+      }
+
+      if (source.type !== 'url') {
+        res.status(400).json({
+          success: false,
+          error: 'Only URL sources can be refreshed',
+        });
+
+        return;
+      }
+
+      const updated = await store.setRefresh(uid, sourceId, refresh);
+
+      res.json({
+        success: true,
+        source: updated ? serializeSource(updated) : serializeSource(source),
+      });
+    } catch (error) {
+      logger.error('Error scheduling knowledge source refresh:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  },
+);
+
+/**
+ * DELETE /api/knowledge/sources/:sourceId/refresh
+ * Stop refreshing a URL source; its fetch history is kept
+ */
+router.delete(
+  '/sources/:sourceId/refresh',
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const uid = req.query.uid;
+      const { sourceId } = req.params;
+
+      // Check if uid is provided
+      if (!uid || typeof uid !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'uid is required',
+        });
+
+        return;
+      }
+
+      if (!(await authorizeAgent(req, res, uid))) {
+        return;
+      }
+
+      const source = await createKnowledgeSourceStore().setRefresh(uid, sourceId, null);
+
+      if (!source) {
+        res.status(404).json({
+          success: false,
+          error: 'Knowledge source not found',
         });
+
+        return;
       }
+
+      res.json({
+        success: true,
+        source: serializeSource(source),
+      });
+    } catch (error) {
+      logger.error('Error removing knowledge source refresh:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  },
+);
+
+/**
+ * GET /api/knowledge/sources/:sourceId/fetches
+ * List the scheduled fetches of a URL source, most recent first, with the HTTP
+ * status of every fetched page and whether the content changed
+ */
+router.get('/sources/:sourceId/fetches', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const uid = req.query.uid;
+    const { sourceId } = req.params;
+    const limit = parseInt(String(req.query.limit ?? '50'), 10);
+
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'uid is required',
+      });
+
+      return;
+    }
+
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
     }
 
+    if (isNaN(limit) || limit < 1 || limit > 500) {
+      res.status(400).json({
+        success: false,
+        error: 'limit must be between 1 and 500',
+      });
+
+      return;
+    }
+
+    const fetches = await createKnowledgeFetchStore().listFetches(uid, sourceId, limit);
+
+    res.json({
+      success: true,
+      fetches: fetches.map(({ _id, ...fetch }) => ({ id: _id.toString(), ...fetch })),
+    });
+  } catch (error) {
+    logger.error('Error fetching knowledge source fetch history:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/knowledge/sources/:sourceId
+ * Delete a single knowledge source along with its chunks
+ */
+router.delete('/sources/:sourceId', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const uid = req.query.uid;
+    const { sourceId } = req.params;
+
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'uid is required',
+      });
+
+      return;
+    }
+
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    const store = createKnowledgeSourceStore();
+    const source = await store.getSource(uid, sourceId);
+
+    if (!source) {
+      res.status(404).json({
+        success: false,
+        error: 'Knowledge source not found',
+      });
+
+      return;
+    }
+
+    const builder = createRAGBuilder(uid);
+
+    // Remove the chunks first so a failure never leaves orphaned chunks behind
+    const chunksDeleted = await builder.cleanupBySource(uid, sourceId);
+    await store.deleteSource(uid, sourceId);
+
+    res.json({
+      success: true,
+      message: `Deleted knowledge source ${source.name}`,
+      chunksDeleted,
+    });
+  } catch (error) {
+    logger.error('Error deleting knowledge source:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/knowledge/chunks
+ * Page through all chunks of a user (`limit`, `offset`), optionally only those of a
+ * source (`sourceId`) or containing a text (`q`, case-insensitive)
+ */
+router.get('/chunks', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const uid = req.query.uid;
+    const { q, sourceId } = req.query;
+    const limit = parseInt(String(req.query.limit ?? '100'), 10);
+    const offset = parseInt(String(req.query.offset ?? '0'), 10);
+
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'uid is required',
+      });
+
+      return;
+    }
+
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 500 || isNaN(offset) || offset < 0) {
+      res.status(400).json({
+        success: false,
+        error: 'limit must be between 1 and 500 and offset must not be negative',
+      });
+
+      return;
+    }
+
+    if (
+      (q !== undefined && typeof q !== 'string') ||
+      (sourceId !== undefined && typeof sourceId !== 'string')
+    ) {
+      res.status(400).json({
+        success: false,
+        error: 'q and sourceId must be strings',
+      });
+
+      return;
+    }
+
+    const { chunks, total } = await createKnowledgeSourceStore().listChunks(uid, {
+      limit,
+      offset,
+      query: q,
+      sourceId,
+    });
+
+    res.json({
+      success: true,
+      chunks,
+      total,
+    });
+  } catch (error) {
+    logger.error('Error listing knowledge chunks:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/knowledge/chunks
+ * Add a chunk written by hand (`content`) to the knowledge of a user
+ * The content is redacted with the policy of the user, embedded and not linked to a source
+ */
+router.post('/chunks', express.json(), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { uid, content } = req.body;
+
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'uid is required',
+      });
+
+      return;
+    }
+
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    const contentError = validateChunkContent(content);
+
+    if (contentError) {
+      res.status(400).json({
+        success: false,
+        error: contentError,
+      });
+
+      return;
+    }
+
+    const { chunk, redactions } = await addChunk(await createChunkEditContext(uid), {
+      uid,
+      content,
+      userId: req.user!.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      chunk,
+      redactions,
+    });
+  } catch (error) {
+    logger.error('Error adding knowledge chunk:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PATCH /api/knowledge/chunks/:uuid
+ * Replace the content of a chunk (`content`), which is redacted and embedded again
+ * The previous content is kept in the audit trail of the chunk. Edits of a source's
+ * chunks are lost when the source is ingested again.
+ */
+router.patch(
+  '/chunks/:uuid',
+  express.json(),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { uid, content } = req.body;
+      const { uuid } = req.params;
+
+      // Check if uid is provided
+      if (!uid || typeof uid !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'uid is required',
+        });
+
+        return;
+      }
+
+      if (!(await authorizeAgent(req, res, uid))) {
+        return;
+      }
+
+      const contentError = validateChunkContent(content);
+
+      if (contentError) {
+        res.status(400).json({
+          success: false,
+          error: contentError,
+        });
+
+        return;
+      }
+
+      const result = await editChunk(await createChunkEditContext(uid), {
+        uid,
+        uuid,
+        content,
+        userId: req.user!.userId,
+      });
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: 'Knowledge chunk not found',
+        });
+
+        return;
+      }
+
+      res.json({
+        success: true,
+        chunk: result.chunk,
+        redactions: result.redactions,
+      });
+    } catch (error) {
+      logger.error('Error editing knowledge chunk:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  },
+);
+
+/**
+ * DELETE /api/knowledge/chunks/:uuid
+ * Delete a single chunk; its content is kept in the audit trail of the chunk
+ */
+router.delete('/chunks/:uuid', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const uid = req.query.uid;
+    const { uuid } = req.params;
+
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'uid is required',
+      });
+
+      return;
+    }
+
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    const deleted = await deleteChunk(await createChunkEditContext(uid), {
+      uid,
+      uuid,
+      userId: req.user!.userId,
+    });
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Knowledge chunk not found',
+      });
+
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: `Deleted knowledge chunk ${uuid}`,
+    });
+  } catch (error) {
+    logger.error('Error deleting knowledge chunk:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/knowledge/chunks/:uuid/history
+ * List the manual edits of a chunk, oldest first, with who made them and when
+ * Also answers for deleted chunks, whose content is kept in their last edit
+ */
+router.get('/chunks/:uuid/history', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const uid = req.query.uid;
+    const { uuid } = req.params;
+
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'uid is required',
+      });
+
+      return;
+    }
+
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    const edits = await createKnowledgeChunkEditStore().listEdits(uid, uuid);
+
+    res.json({
+      success: true,
+      edits: edits.map(({ _id, ...edit }) => ({ id: _id.toString(), ...edit })),
+    });
+  } catch (error) {
+    logger.error('Error fetching knowledge chunk history:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/knowledge/export
+ * Stream the sources and chunks of a user as a JSONL knowledge bundle
+ * Embeddings are included with `embeddings=true`
+ */
+router.get('/export', async (req: AuthRequest, res: Response): Promise<void> => {
+  const uid = req.query.uid;
+
+  // Check if uid is provided
+  if (!uid || typeof uid !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'uid is required',
+    });
+
+    return;
+  }
+
+  try {
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    const lines = exportKnowledgeBundle(createKnowledgeSourceStore(), uid, {
+      includeEmbeddings: req.query.embeddings === 'true',
+    });
+
+    // Read the header before sending anything, so setup errors still get a JSON response
+    const header = await lines.next();
+
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="knowledge-${uid.replace(/[^\w.-]/g, '_')}.jsonl"`,
+    );
+
+    if (!header.done) {
+      res.write(header.value);
+    }
+
+    for await (const line of lines) {
+      // Wait for the client to catch up instead of buffering the whole bundle
+      if (!res.write(line)) {
+        await once(res, 'drain');
+      }
+    }
+
+    res.end();
+  } catch (error) {
+    logger.error('Error exporting knowledge:', error);
+
+    if (res.headersSent) {
+      res.destroy(error instanceof Error ? error : undefined);
+
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/knowledge/import
+ * Import a JSONL knowledge bundle sent as the request body (Content-Type: application/x-ndjson)
+ * Query: `uid` remaps the bundle to another user, `duplicates` skips (default) or replaces
+ * sources that are already stored, `reembed=true` accepts bundles embedded with another model
+ */
+router.post('/import', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { uid, duplicates = 'skip' } = req.query;
+    const reembed = req.query.reembed === 'true';
+
+    if (uid !== undefined && (typeof uid !== 'string' || uid.length === 0)) {
+      res.status(400).json({
+        success: false,
+        error: 'uid must be a non-empty string',
+      });
+
+      return;
+    }
+
+    if (!BUNDLE_DUPLICATE_MODES.includes(duplicates as BundleDuplicateMode)) {
+      res.status(400).json({
+        success: false,
+        error: `duplicates must be one of: ${BUNDLE_DUPLICATE_MODES.join(', ')}`,
+      });
+
+      return;
+    }
+
+    const lines = readBundleLines(req);
+    const first = await lines.next();
+
+    if (first.done || first.value.type !== 'header') {
+      res.status(400).json({
+        success: false,
+        error: 'The bundle must start with a header line',
+      });
+
+      return;
+    }
+
+    const header = first.value;
+    const targetUid = uid ?? header.uid;
+
+    if (!(await authorizeAgent(req, res, targetUid))) {
+      return;
+    }
+
+    const headerError = validateBundleHeader(header, createRAGBuilder(targetUid), reembed);
+
+    if (headerError) {
+      res.status(400).json({
+        success: false,
+        error: headerError,
+      });
+
+      return;
+    }
+
+    const result = await importKnowledgeBundle(header, lines, {
+      uid: targetUid,
+      duplicates: duplicates as BundleDuplicateMode,
+      sources: createKnowledgeSourceStore(),
+      createBuilder: createRAGBuilder,
+    });
+
+    res.json({
+      success: true,
+      message: `Imported ${result.chunksImported} chunks from ${result.sourcesImported} sources`,
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof BundleLineError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+
+      return;
+    }
+
+    logger.error('Error importing knowledge:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/knowledge/search
+ * Search over the knowledge chunks of a user
+ * `mode` selects vector (default), keyword or hybrid retrieval (rank fusion tuned by `weights`
+ * and `rrfK`); `score` is the cosine similarity in vector mode, the text score in keyword mode
+ * and the fused rank score in hybrid mode, where `minScore` only filters the vector matches;
+ * each result lists the retrievers that matched it; `rerank` reorders the candidates by
+ * their relevance as rated by the configured reranker; `language` (ISO 639-1) restricts
+ * results to sources detected in that language
+ */
+router.post('/search', express.json(), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const {
+      uid,
+      query,
+      topK = 5,
+      minScore = 0,
+      mode,
+      weights,
+      rrfK,
+      rerank = false,
+      language,
+    } = req.body;
+
+    // Check if uid is provided
+    if (!uid || typeof uid !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'uid is required',
+      });
+
+      return;
+    }
+
+    if (!(await authorizeAgent(req, res, uid))) {
+      return;
+    }
+
+    if (!query || typeof query !== 'string' || query.trim().length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'query is required and must be a non-empty string',
+      });
+
+      return;
+    }
+
+    if (!Number.isInteger(topK) || topK < 1 || topK > 100) {
+      res.status(400).json({
+        success: false,
+        error: 'topK must be an integer between 1 and 100',
+      });
+
+      return;
+    }
+
+    if (typeof minScore !== 'number' || minScore < -1 || minScore > 1) {
+      res.status(400).json({
+        success: false,
+        error: 'minScore must be a number between -1 and 1',
+      });
+
+      return;
+    }
+
+    if (mode !== undefined && !RETRIEVAL_MODES.includes(mode)) {
+      res.status(400).json({
+        success: false,
+        error: `mode must be one of: ${RETRIEVAL_MODES.join(', ')}`,
+      });
+
+      return;
+    }
+
+    const isWeight = (value: unknown) =>
+      value === undefined || (typeof value === 'number' && value >= 0 && value <= 10);
+    if (
+      weights !== undefined &&
+      (typeof weights !== 'object' ||
+        weights === null ||
+        !isWeight(weights.vector) ||
+        !isWeight(weights.keyword))
+    ) {
+      res.status(400).json({
+        success: false,
+        error: 'weights must be an object with vector and keyword weights between 0 and 10',
+      });
+
+      return;
+    }
+
+    if (rrfK !== undefined && (!Number.isInteger(rrfK) || rrfK < 1 || rrfK > 1000)) {
+      res.status(400).json({
+        success: false,
+        error: 'rrfK must be an integer between 1 and 1000',
+      });
+
+      return;
+    }
+
+    if (typeof rerank !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: 'rerank must be a boolean',
+      });
+
+      return;
+    }
+
+    if (
+      language !== undefined &&
+      (typeof language !== 'string' || !/^[a-z]{2,3}$/.test(language))
+    ) {
+      res.status(400).json({
+        success: false,
+        error: 'language must be a lowercase ISO 639-1 code, e.g. "en"',
+      });
+
+      return;
+    }
+
+    // Check if DATABASE_URL is set
+    const mongodbUrl = process.env.DATABASE_URL;
+    if (!mongodbUrl) {
+      res.status(500).json({
+        success: false,
+        error: 'DATABASE_URL not configured. Please set DATABASE_URL in environment variables.',
+      });
+
+      return;
+    }
+
+    const search = createKnowledgeSearch();
+
+    const results = await search.search({
+      uid,
+      query,
+      topK,
+      minScore,
+      mode,
+      weights,
+      rrfK,
+      rerank,
+      language,
+    });
+
     res.json({
       success: true,
-      message: `Processed ${
-        processedItems.filter((i) => i.status === 'success').length
-      } knowledge items successfully`,
-      itemsProcessed: processedItems,
-      documentsCreated: totalParagraphs,
+      results: results.map(
+        ({ uuid, content, score, metadata, retrievers, ranks, rerankScore }) => ({
+          uuid,
+          content,
+          score,
+          metadata,
+          retrievers,
+          ranks,
+          rerankScore,
+        }),
+      ),
     });
   } catch (error) {
-    logger.error('Error processing knowledge items:', error);
+    logger.error('Error searching knowledge:', error);
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -3,7 +3,16 @@ import express, { Request, RequestHandler, Response, Router } from 'express';
 import FormData from 'form-data';
 import OpenAI from 'openai';
 
+import {
+  KnowledgeCitation,
+  buildKnowledgeContext,
+  createKnowledgeSearch,
+  extractQueryFromMessages,
+  validateChatKnowledgeOptions,
+} from '../services';
 import { createScopedLogger } from '../utils';
+import { authenticateAgent } from './agentAccess';
+import { AuthRequest } from './authRoutes';
 import { upload } from './uploadRoutes';
 
 const logger = createScopedLogger('routes/openaiRoutes');
@@ -13,10 +22,16 @@ const router: Router = express.Router();
 const OPENAI_API_URL: string = 'https://api.openai.com/v1/chat/completions';
 const OPENAI_API_KEY: string = process.env.OPENAI_API_KEY || '';
 
-// Chat completion
-router.post('/chat', async (req: Request, res: Response): Promise<void> => {
+// Chat completion, optionally grounded in the knowledge of an agent the caller owns
+router.post('/chat', async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { messages, model = 'gpt-4o', temperature = 0.7, max_tokens = 1000 } = req.body;
+    const {
+      messages,
+      model = 'gpt-4o',
+      temperature = 0.7,
+      max_tokens = 1000,
+      knowledge,
+    } = req.body;
 
     if (!OPENAI_API_KEY) {
       res.status(500).json({
@@ -27,6 +42,44 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    const knowledgeError = validateChatKnowledgeOptions(knowledge);
+    if (knowledgeError) {
+      res.status(400).json({
+        success: false,
+        error: knowledgeError,
+      });
+
+      return;
+    }
+
+    let chatMessages = messages;
+    let citations: KnowledgeCitation[] | undefined;
+
+    if (knowledge && !(await authenticateAgent(req, res, knowledge.uid))) {
+      return;
+    }
+
+    if (knowledge) {
+      const context = await buildKnowledgeContext(createKnowledgeSearch(), {
+        uid: knowledge.uid,
+        topK: knowledge.topK,
+        rerank: knowledge.rerank,
+        query: extractQueryFromMessages(messages),
+      });
+
+      if (context.prompt) {
+        const [first, ...rest] = Array.isArray(messages) ? messages : [];
+
+        // Extend an existing string system message, otherwise prepend a new one
+        chatMessages =
+          first?.role === 'system' && typeof first.content === 'string'
+            ? [{ ...first, content: `${first.content}\n\n${context.prompt}` }, ...rest]
+            : [{ role: 'system', content: context.prompt }, ...(messages ?? [])];
+      }
+
+      citations = context.citations;
+    }
+
     const headers = {
       'Content-Type': 'application/json',
       Authorization: `Bearer ${OPENAI_API_KEY}`,
@@ -36,7 +89,7 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
       OPENAI_API_URL,
       {
         model,
-        messages,
+        messages: chatMessages,
         temperature,
         max_tokens,
         stream: false,
@@ -47,6 +100,7 @@ router.post('/chat', async (req: Request, res: Response): Promise<void> => {
     res.json({
       success: true,
       data,
+      ...(citations && { citations }),
     });
   } catch (error) {
     logger.error('Error calling OpenAI API:', error);
@@ -0,0 +1,214 @@
+import * as assert from 'assert/strict';
+
+import {
+  KnowledgeReranker,
+  KnowledgeSearchResult,
+  LocalEmbeddingProvider,
+  LocalRelevanceScorer,
+  compareEvalRuns,
+  cosineSimilarity,
+  scoreEvalQuestion,
+  summarizeEval,
+} from '../services';
+import { createScopedLogger } from '../utils';
+
+const logger = createScopedLogger('scripts/checkKnowledgeOffline');
+
+// Small corpus the checks retrieve from, one chunk per entry
+const CORPUS = [
+  {
+    uuid: 'refunds',
+    source: 'policies.md',
+    content: 'Customers can request a full refund within 30 days of purchase.',
+  },
+  {
+    uuid: 'shipping',
+    source: 'policies.md',
+    content: 'Orders ship within two business days from our warehouse in Oslo.',
+  },
+  {
+    uuid: 'warranty',
+    source: 'warranty.pdf',
+    content: 'The PRO-200 comes with a two year warranty covering manufacturing defects.',
+  },
+  {
+    uuid: 'support',
+    source: 'faq.html',
+    content: 'Our support team answers emails on weekdays between 9:00 and 17:00.',
+  },
+];
+
+/**
+ * Rank the corpus against a query with the offline embedding stand-in
+ */
+async function searchCorpus(
+  embeddings: LocalEmbeddingProvider,
+  query: string,
+): Promise<KnowledgeSearchResult[]> {
+  const [queryVector, ...vectors] = await embeddings.embed([
+    query,
+    ...CORPUS.map((chunk) => chunk.content),
+  ]);
+
+  return CORPUS.map((chunk, index) => ({
+    uuid: chunk.uuid,
+    content: chunk.content,
+    score: cosineSimilarity(queryVector, vectors[index]),
+    created_at: new Date(0),
+    metadata: {
+      index,
+      embedding_model: embeddings.model,
+      embedding_dimension: embeddings.dimension,
+      source_name: chunk.source,
+    },
+  })).sort((a, b) => b.score - a.score);
+}
+
+async function checkLocalEmbeddings(): Promise<void> {
+  const embeddings = new LocalEmbeddingProvider({ dimension: 64 });
+  const [first, again, related, unrelated] = await embeddings.embed([
+    'full refund within 30 days',
+    'full refund within 30 days',
+    'Can I get a refund?',
+    'warehouse shipping times',
+  ]);
+
+  assert.equal(first.length, 64);
+  assert.deepEqual(first, again, 'embeddings are deterministic');
+  assert.ok(
+    cosineSimilarity(first, related) > cosineSimilarity(first, unrelated),
+    'texts sharing words are closer than unrelated ones',
+  );
+}
+
+async function checkLocalRelevanceScorer(): Promise<void> {
+  const scorer = new LocalRelevanceScorer();
+  const query = 'two year warranty';
+
+  assert.equal(await scorer.score('', CORPUS[2].content), 0);
+  assert.equal(await scorer.score(query, CORPUS[2].content), 1);
+  assert.equal(await scorer.score(query, CORPUS[0].content), 0);
+
+  const reranker = new KnowledgeReranker({ scorer });
+  const reranked = await reranker.rerank(
+    query,
+    CORPUS.map((chunk, index) => ({
+      uuid: chunk.uuid,
+      content: chunk.content,
+      score: 0,
+      created_at: new Date(0),
+      metadata: { index, embedding_model: 'none', embedding_dimension: 0 },
+    })),
+    { topN: 2 },
+  );
+
+  assert.equal(reranked.length, 2);
+  assert.equal(reranked[0].uuid, 'warranty');
+}
+
+async function checkEvalScoring(): Promise<void> {
+  const result = (uuid: string, source = 'other.md', content = ''): KnowledgeSearchResult => ({
+    uuid,
+    content,
+    score: 0,
+    created_at: new Date(0),
+    metadata: {
+      index: 0,
+      embedding_model: 'none',
+      embedding_dimension: 0,
+      source_name: source,
+    },
+  });
+
+  // Two expected chunks, found at ranks 2 and 3
+  const partial = scoreEvalQuestion(
+    { query: 'q1', expectedChunks: ['a', 'b'] },
+    [result('x'), result('a'), result('b')],
+    3,
+  );
+  assert.equal(partial.recall, 1);
+  assert.equal(partial.reciprocalRank, 0.5);
+  assert.deepEqual(partial.relevant, [2, 3]);
+  assert.ok(Math.abs(partial.ndcg - (1 / Math.log2(3) + 0.5) / (1 + 1 / Math.log2(3))) < 1e-9);
+
+  // Chunks of one expected source count once; keywords must all appear in one chunk
+  const sources = scoreEvalQuestion(
+    { query: 'q2', expectedSources: ['policies.md'], keywords: ['refund', '30 days'] },
+    [result('p1', 'policies.md'), result('p2', 'policies.md', 'A refund within 30 days')],
+    5,
+  );
+  assert.equal(sources.recall, 1);
+  assert.deepEqual(sources.relevant, [1, 2]);
+
+  // Results past k are not graded
+  const missed = scoreEvalQuestion(
+    { query: 'q3', expectedChunks: ['a'] },
+    [result('x'), result('a')],
+    1,
+  );
+  assert.deepEqual([missed.recall, missed.reciprocalRank, missed.ndcg], [0, 0, 0]);
+
+  const metrics = summarizeEval([partial, missed]);
+  assert.equal(metrics.recall, 0.5);
+  assert.equal(metrics.mrr, 0.25);
+  assert.equal(summarizeEval([]).recall, 0);
+
+  const baseline = { label: 'baseline', questions: [partial, missed], ...metrics };
+  const improved = scoreEvalQuestion({ query: 'q3', expectedChunks: ['a'] }, [result('a')], 1);
+  const candidateQuestions = [partial, improved];
+  const comparison = compareEvalRuns(baseline, {
+    label: 'candidate',
+    questions: candidateQuestions,
+    ...summarizeEval(candidateQuestions),
+  });
+
+  assert.equal(comparison.delta.recall, 0.5);
+  assert.deepEqual(comparison.questions, [{ query: 'q3', baseline: 0, candidate: 1 }]);
+}
+
+async function checkOfflineRetrieval(): Promise<void> {
+  const embeddings = new LocalEmbeddingProvider();
+  const questions = [
+    { query: 'How many days do I have to ask for a refund?', expectedChunks: ['refunds'] },
+    { query: 'What does the PRO-200 warranty cover?', expectedSources: ['warranty.pdf'] },
+  ];
+
+  const results = [];
+  for (const question of questions) {
+    results.push(scoreEvalQuestion(question, await searchCorpus(embeddings, question.query), 2));
+  }
+
+  assert.equal(summarizeEval(results).recall, 1);
+}
+
+/**
+ * Check the offline stand-ins and the retrieval evaluation without MongoDB or API keys
+ */
+async function checkKnowledgeOffline(): Promise<void> {
+  const checks: [string, () => Promise<void>][] = [
+    ['local embeddings', checkLocalEmbeddings],
+    ['local relevance scorer', checkLocalRelevanceScorer],
+    ['eval scoring', checkEvalScoring],
+    ['offline retrieval', checkOfflineRetrieval],
+  ];
+
+  for (const [name, check] of checks) {
+    await check();
+    logger.log(`ok - ${name}`);
+  }
+}
+
+// Run the script if executed directly
+if (require.main === module) {
+  checkKnowledgeOffline()
+    .then(() => {
+      logger.log('Script completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('Script failed:', error);
+      process.exit(1);
+    });
+}
+
+export { checkKnowledgeOffline };
@@ -0,0 +1,255 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { closeDatabase } from '../config';
+import {
+  ChunkingOptions,
+  EmbeddingTarget,
+  KnowledgeEvalComparison,
+  NewKnowledgeEvalRun,
+  RetrievalMode,
+  compareEvalRuns,
+  createEmbeddingProvider,
+  createKnowledgeEvalStore,
+  createKnowledgeSearch,
+  createKnowledgeSourceStore,
+  createRAGBuilder,
+  createRedactionPolicyStore,
+  fileParser,
+  hashContent,
+  ingestText,
+  resolveChunkingConfig,
+  resolveEmbeddingTarget,
+  runKnowledgeEval,
+  validateEvalQuestions,
+} from '../services';
+import { createScopedLogger } from '../utils';
+
+const logger = createScopedLogger('scripts/evaluateKnowledge');
+
+// Configuration a corpus is ingested with before a golden set is run against it
+interface EvalConfig {
+  name: string;
+  chunking?: ChunkingOptions;
+  embedding?: EmbeddingTarget; // e.g. { "provider": "local" } to run offline
+}
+
+/**
+ * Read `--name value` arguments
+ */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && argv[i + 1] !== undefined) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Read the configurations to compare from a JSON file holding an array of configs
+ */
+async function readConfigs(file: string): Promise<EvalConfig[]> {
+  const configs = JSON.parse(await fs.readFile(file, 'utf8'));
+
+  if (
+    !Array.isArray(configs) ||
+    configs.length === 0 ||
+    configs.some((config) => typeof config?.name !== 'string' || config.name.length === 0)
+  ) {
+    throw new Error('--configs must be a JSON array of configs with a name');
+  }
+
+  return configs;
+}
+
+function formatMetrics(run: NewKnowledgeEvalRun): string {
+  return (
+    `recall@${run.k} ${run.recall.toFixed(3)}  MRR ${run.mrr.toFixed(3)}  ` +
+    `nDCG@${run.k} ${run.ndcg.toFixed(3)}`
+  );
+}
+
+function logComparison(comparison: KnowledgeEvalComparison) {
+  const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(3)}`;
+
+  logger.log(
+    `${comparison.candidate} vs ${comparison.baseline}: recall ${signed(comparison.delta.recall)}, ` +
+      `MRR ${signed(comparison.delta.mrr)}, nDCG ${signed(comparison.delta.ndcg)}`,
+  );
+
+  for (const question of comparison.questions) {
+    logger.log(
+      `  ${question.baseline.toFixed(3)} -> ${question.candidate.toFixed(3)}  ${question.query}`,
+    );
+  }
+}
+
+/**
+ * Ingest every supported file of a directory into a uid with an evaluation config
+ */
+async function ingestCorpus(dir: string, uid: string, config: EvalConfig, redactionUid: string) {
+  const chunking = resolveChunkingConfig(config.chunking);
+  const builder = createRAGBuilder(uid, createEmbeddingProvider(config.embedding));
+  const sources = createKnowledgeSourceStore();
+  const redaction = await createRedactionPolicyStore().getPolicy(redactionUid);
+  const files = (await fs.readdir(dir)).filter((file) => fileParser.isSupportedFormat(file));
+
+  if (files.length === 0) {
+    throw new Error(`No supported files in ${dir}`);
+  }
+
+  for (const file of files) {
+    const buffer = await fs.readFile(path.join(dir, file));
+    const { text, segments } = await fileParser.parseDocument(buffer, file);
+    await ingestText(builder, sources, {
+      uid,
+      type: 'file',
+      name: file,
+      format: file.toLowerCase().split('.').pop() || '',
+      size: buffer.length,
+      contentHash: hashContent(buffer),
+      text,
+      segments,
+      chunking,
+      redaction,
+    });
+  }
+
+  return chunking;
+}
+
+/**
+ * Remove the knowledge ingested for an evaluation
+ */
+async function cleanupCorpus(uid: string) {
+  await createRAGBuilder(uid).cleanupByUid(uid);
+  await createKnowledgeSourceStore().deleteByUid(uid);
+}
+
+/**
+ * Evaluate retrieval quality with a golden question set of a uid
+ *
+ * --uid U --set NAME --file golden.json
+ *   Store a golden set: a JSON array of questions (or { "questions": [...] }), each
+ *   with a query and expectedChunks, expectedSources and/or keywords
+ * --uid U --set NAME [--k 5] [--mode hybrid] [--rerank true]
+ *   Run the set against the live knowledge of the uid and compare with the last run
+ * --uid U --set NAME --corpus DIR --configs configs.json
+ *   Ingest the files of DIR once per config (chunking and embedding options) under a
+ *   temporary uid, run the set against each and compare every config with the first.
+ *   Chunk uuids differ per ingestion, so grade these sets by sources or keywords.
+ */
+async function evaluateKnowledge(argv: string[]) {
+  try {
+    const args = parseArgs(argv);
+
+    if (!args.uid || !args.set) {
+      throw new Error('--uid and --set are required');
+    }
+
+    const store = createKnowledgeEvalStore();
+
+    if (args.file) {
+      const content = JSON.parse(await fs.readFile(args.file, 'utf8'));
+      const questions = validateEvalQuestions(
+        Array.isArray(content) ? content : content?.questions,
+      );
+      await store.saveSet(args.uid, args.set, questions);
+      logger.log(`Stored golden set ${args.set} of ${args.uid} with ${questions.length} questions`);
+
+      return;
+    }
+
+    const set = await store.getSet(args.uid, args.set);
+
+    if (!set) {
+      throw new Error(`No golden set ${args.set} for ${args.uid}; store one with --file`);
+    }
+
+    const options = {
+      set,
+      k: args.k ? parseInt(args.k, 10) : 5,
+      mode: (args.mode as RetrievalMode) || 'hybrid',
+      rerank: args.rerank === 'true',
+    };
+
+    if (!args.corpus) {
+      const previous = await store.getLatestRun(args.uid, args.set, 'live');
+      const run = await runKnowledgeEval({
+        ...options,
+        search: createKnowledgeSearch(),
+        uid: args.uid,
+        label: 'live',
+        embedding: resolveEmbeddingTarget(),
+      });
+      await store.saveRun(run);
+      logger.log(`live: ${formatMetrics(run)}`);
+
+      if (previous) {
+        logComparison(compareEvalRuns({ ...previous, label: 'previous live run' }, run));
+      }
+
+      return;
+    }
+
+    if (!args.configs) {
+      throw new Error('--configs is required with --corpus');
+    }
+
+    const runs: NewKnowledgeEvalRun[] = [];
+
+    for (const config of await readConfigs(args.configs)) {
+      const evalUid = `${args.uid}:eval:${config.name}`;
+      const embedding = resolveEmbeddingTarget(config.embedding);
+
+      // Start from a clean slate in case an earlier evaluation was interrupted
+      await cleanupCorpus(evalUid);
+
+      try {
+        const chunking = await ingestCorpus(args.corpus, evalUid, config, args.uid);
+        const run = await runKnowledgeEval({
+          ...options,
+          search: createKnowledgeSearch(createEmbeddingProvider(config.embedding)),
+          uid: evalUid,
+          label: config.name,
+          chunking,
+          embedding,
+        });
+        await store.saveRun(run);
+        runs.push(run);
+        logger.log(`${config.name}: ${formatMetrics(run)}`);
+      } finally {
+        await cleanupCorpus(evalUid);
+      }
+    }
+
+    for (const run of runs.slice(1)) {
+      logComparison(compareEvalRuns(runs[0], run));
+    }
+  } catch (error) {
+    logger.error('Error evaluating knowledge retrieval:', error);
+    throw error;
+  } finally {
+    await closeDatabase();
+  }
+}
+
+// Run the script if executed directly
+if (require.main === module) {
+  evaluateKnowledge(process.argv.slice(2))
+    .then(() => {
+      logger.log('Script completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('Script failed:', error);
+      process.exit(1);
+    });
+}
+
+export { evaluateKnowledge };
@@ -0,0 +1,94 @@
+import { closeDatabase } from '../config';
+import {
+  EMBEDDING_PROVIDERS,
+  EmbeddingProviderName,
+  EmbeddingTarget,
+  createKnowledgeJobStore,
+  createKnowledgeSourceStore,
+  resolveEmbeddingTarget,
+} from '../services';
+import { createScopedLogger } from '../utils';
+
+const logger = createScopedLogger('scripts/reindexKnowledge');
+
+/**
+ * Read `--name value` arguments
+ */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && argv[i + 1] !== undefined) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Queue a re-index job for one uid (--uid) or for every uid with knowledge
+ * The target defaults to the configured embedding provider; --provider, --model and
+ * --dimension override it. The job runs on the knowledge job runner of the server.
+ */
+async function reindexKnowledge(argv: string[]) {
+  try {
+    const args = parseArgs(argv);
+
+    if (args.provider && !EMBEDDING_PROVIDERS.includes(args.provider as EmbeddingProviderName)) {
+      throw new Error(`--provider must be one of: ${EMBEDDING_PROVIDERS.join(', ')}`);
+    }
+
+    const target: EmbeddingTarget = {
+      ...(args.provider && { provider: args.provider as EmbeddingProviderName }),
+      ...(args.model && { model: args.model }),
+      ...(args.dimension && { dimension: parseInt(args.dimension, 10) }),
+    };
+
+    if (target.dimension !== undefined && (isNaN(target.dimension) || target.dimension < 1)) {
+      throw new Error('--dimension must be a positive integer');
+    }
+
+    const embedding = resolveEmbeddingTarget(target);
+    const uids = args.uid ? [args.uid] : await createKnowledgeSourceStore().listChunkUids();
+
+    if (uids.length === 0) {
+      logger.log('No knowledge to re-index');
+
+      return;
+    }
+
+    const job = await createKnowledgeJobStore().createJob({
+      kind: 'reindex',
+      uid: args.uid ?? '*',
+      embedding,
+      items: uids.map((uid) => ({ type: 'uid', name: uid })),
+    });
+
+    logger.log(
+      `Queued re-index job ${job._id} for ${uids.length} uids into ${embedding.provider} ` +
+        `${embedding.model} (${embedding.dimension} dimensions)`,
+    );
+  } catch (error) {
+    logger.error('Error queueing knowledge re-index:', error);
+    throw error;
+  } finally {
+    await closeDatabase();
+  }
+}
+
+// Run the script if executed directly
+if (require.main === module) {
+  reindexKnowledge(process.argv.slice(2))
+    .then(() => {
+      logger.log('Script completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('Script failed:', error);
+      process.exit(1);
+    });
+}
+
+export { reindexKnowledge };
@@ -19,6 +19,11 @@ import {
 } from './routes';
 // Optional integrations - uncomment if needed:
 // import { lettaRoutes } from './routes';
+import {
+  startKnowledgeJobRunner,
+  startKnowledgeRefreshScheduler,
+  validateRedactionEnvironment,
+} from './services';
 import { createScopedLogger } from './utils';
 
 const logger = createScopedLogger('server');
@@ -68,9 +73,18 @@ app.get('/', (_req, res) => {
 
 const startServer = async () => {
   try {
+    // Fail fast on redaction defaults that would reject every ingestion request
+    validateRedactionEnvironment();
+
     try {
       await connectToDatabase();
       logger.log('✅ Connected to MongoDB');
+
+      // Process queued knowledge ingestion jobs, including ones interrupted by a restart
+      startKnowledgeJobRunner();
+
+      // Fetch scheduled URL sources again; only one replica runs refreshes at a time
+      startKnowledgeRefreshScheduler();
     } catch (dbError) {
       logger.warn('⚠️ MongoDB connection failed, continuing without database:', dbError);
     }
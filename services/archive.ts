@@ -0,0 +1,291 @@
+/**
+ * Archive Expansion
+ * Expands ZIP archives uploaded as knowledge, one entry at a time, so each file can
+ * be parsed on its own
+ *
+ * Features:
+ * - Zip bomb guards: entry count, per-entry and total uncompressed size, and a maximum
+ *   expansion ratio of the whole archive, enforced while decompressing
+ * - Path traversal guards: absolute paths, drive letters and ".." segments are rejected
+ * - Symbolic links, nested archives and system files (e.g. __MACOSX) are not extracted
+ * - Per-entry report of what was extracted, skipped or rejected, with the reason
+ * - The same limits for reading the parts of ZIP based documents, e.g. PPTX and XLSX
+ */
+import JSZip from 'jszip';
+import * as path from 'path';
+
+import { fileParser } from './fileParser';
+
+export const ARCHIVE_FORMATS = ['zip'];
+
+export interface ArchiveLimits {
+  maxEntries?: number; // Files and folders listed in the archive
+  maxEntrySize?: number; // Uncompressed bytes of one file
+  maxTotalSize?: number; // Uncompressed bytes of all files
+  maxCompressionRatio?: number; // Uncompressed bytes of all files per byte of archive
+}
+
+// "unsupported" entries are files fileParser cannot read, "skipped" ones are hidden or
+// system files, "rejected" ones are unsafe, over a limit or unreadable
+export type ArchiveEntryStatus = 'extracted' | 'unsupported' | 'skipped' | 'rejected';
+
+export interface ArchiveEntryResult {
+  path: string; // Path of the entry within the archive
+  status: ArchiveEntryStatus;
+  size?: number; // Uncompressed bytes of extracted entries
+  reason?: string;
+}
+
+export interface ArchiveEntry {
+  path: string;
+  name: string; // File name without the folder
+  folder: string; // Folder path within the archive, "" at the root
+  buffer: Buffer;
+}
+
+// Reads one entry of an opened ZIP file, null when there is no such entry
+export type ZipEntryReader = (entryPath: string) => Promise<Buffer | null>;
+
+// Thrown when an entry decompresses past a size limit
+class ArchiveLimitError extends Error {}
+
+const SYMLINK_MODE = 0o120000;
+const FILE_TYPE_MASK = 0o170000;
+
+/**
+ * Whether a file name has an archive extension
+ */
+export function isArchive(filename: string): boolean {
+  return ARCHIVE_FORMATS.includes(filename.toLowerCase().split('.').pop() || '');
+}
+
+/**
+ * Fill in the defaults of archive limits
+ */
+export function resolveArchiveLimits(limits: ArchiveLimits = {}): Required<ArchiveLimits> {
+  return {
+    maxEntries: limits.maxEntries ?? 1000,
+    maxEntrySize: limits.maxEntrySize ?? 50 * 1024 * 1024,
+    maxTotalSize: limits.maxTotalSize ?? 500 * 1024 * 1024,
+    maxCompressionRatio: limits.maxCompressionRatio ?? 100,
+  };
+}
+
+/**
+ * Normalize the path of an entry to forward slashes without "." segments
+ * Returns null for paths that would escape the archive
+ */
+function normalizeEntryPath(name: string): string | null {
+  const unified = name.replace(/\\/g, '/');
+
+  if (unified.startsWith('/') || /^[a-zA-Z]:/.test(unified)) {
+    return null;
+  }
+
+  const segments = unified.split('/').filter((segment) => segment !== '' && segment !== '.');
+
+  return segments.includes('..') ? null : segments.join('/');
+}
+
+/**
+ * Whether an entry holds operating system metadata rather than content
+ */
+function isSystemEntry(entryPath: string): boolean {
+  return entryPath
+    .split('/')
+    .some(
+      (segment) => segment === '__MACOSX' || segment.startsWith('.') || segment === 'Thumbs.db',
+    );
+}
+
+function isSymlink(file: JSZip.JSZipObject): boolean {
+  const mode = file.unixPermissions;
+
+  return typeof mode === 'number' && (mode & FILE_TYPE_MASK) === SYMLINK_MODE;
+}
+
+/**
+ * Decompress an entry, stopping as soon as it grows past `maxBytes`
+ */
+function readEntry(file: JSZip.JSZipObject, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = file.nodeStream('nodebuffer');
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+
+      if (size > maxBytes) {
+        // Leave the stream paused so decompression stops
+        stream.removeListener('data', onData);
+        stream.pause();
+        reject(new ArchiveLimitError(`Expands past ${maxBytes} bytes`));
+
+        return;
+      }
+
+      chunks.push(chunk);
+    };
+
+    stream.on('data', onData);
+    stream.once('end', () => resolve(Buffer.concat(chunks)));
+    stream.once('error', reject);
+  });
+}
+
+/**
+ * Open a ZIP file whose entries are read on demand, e.g. the parts of an Office document
+ * Every read entry counts towards the archive limits; reading past them throws.
+ */
+export async function openZip(buffer: Buffer, limits: ArchiveLimits = {}): Promise<ZipEntryReader> {
+  const { maxEntries, maxEntrySize, maxTotalSize, maxCompressionRatio } =
+    resolveArchiveLimits(limits);
+  const zip = await JSZip.loadAsync(buffer);
+
+  const entries = Object.keys(zip.files).length;
+
+  if (entries > maxEntries) {
+    throw new Error(`The archive lists ${entries} entries; at most ${maxEntries} are accepted`);
+  }
+
+  let remaining = Math.min(maxTotalSize, buffer.length * maxCompressionRatio);
+
+  return async (entryPath) => {
+    const file = zip.file(entryPath);
+
+    if (!file) {
+      return null;
+    }
+
+    try {
+      const content = await readEntry(file, Math.min(maxEntrySize, remaining));
+      remaining -= content.length;
+
+      return content;
+    } catch (error) {
+      if (error instanceof ArchiveLimitError) {
+        throw new Error(`${entryPath} expands past the size limit`);
+      }
+
+      throw error;
+    }
+  };
+}
+
+/**
+ * Expand a ZIP archive and hand every supported file to `onEntry`, one at a time
+ * Entries are decompressed lazily, so at most one of them is held in memory.
+ * Throws when the archive cannot be read or lists too many entries.
+ */
+export async function expandZipArchive(
+  buffer: Buffer,
+  onEntry: (entry: ArchiveEntry) => Promise<void>,
+  limits: ArchiveLimits = {},
+): Promise<ArchiveEntryResult[]> {
+  const { maxEntries, maxEntrySize, maxTotalSize, maxCompressionRatio } =
+    resolveArchiveLimits(limits);
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error) {
+    throw new Error(`Invalid ZIP archive: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const files = Object.values(zip.files);
+
+  if (files.length > maxEntries) {
+    throw new Error(
+      `The archive lists ${files.length} entries; at most ${maxEntries} are accepted`,
+    );
+  }
+
+  const results: ArchiveEntryResult[] = [];
+  let remaining = Math.min(maxTotalSize, buffer.length * maxCompressionRatio);
+
+  for (const file of files) {
+    if (file.dir) {
+      continue;
+    }
+
+    // JSZip strips ".." from `name`; the original name shows whether the entry tried to escape
+    const originalName = file.unsafeOriginalName ?? file.name;
+    const entryPath = normalizeEntryPath(originalName);
+
+    if (entryPath === null || entryPath.length === 0) {
+      results.push({ path: originalName, status: 'rejected', reason: 'Unsafe path' });
+      continue;
+    }
+
+    if (isSymlink(file)) {
+      results.push({
+        path: entryPath,
+        status: 'rejected',
+        reason: 'Symbolic links are not extracted',
+      });
+      continue;
+    }
+
+    if (isSystemEntry(entryPath)) {
+      results.push({ path: entryPath, status: 'skipped', reason: 'System or hidden file' });
+      continue;
+    }
+
+    if (isArchive(entryPath)) {
+      results.push({
+        path: entryPath,
+        status: 'unsupported',
+        reason: 'Nested archives are not expanded',
+      });
+      continue;
+    }
+
+    if (!fileParser.isSupportedFormat(entryPath)) {
+      results.push({ path: entryPath, status: 'unsupported', reason: 'Unsupported file format' });
+      continue;
+    }
+
+    if (remaining <= 0) {
+      results.push({
+        path: entryPath,
+        status: 'rejected',
+        reason: 'Archive expands past the size limit',
+      });
+      continue;
+    }
+
+    let content: Buffer;
+    try {
+      content = await readEntry(file, Math.min(maxEntrySize, remaining));
+    } catch (error) {
+      if (error instanceof ArchiveLimitError) {
+        results.push({
+          path: entryPath,
+          status: 'rejected',
+          reason: 'Entry expands past the size limit',
+        });
+      } else {
+        results.push({
+          path: entryPath,
+          status: 'rejected',
+          reason: error instanceof Error ? error.message : 'Could not decompress the entry',
+        });
+      }
+
+      continue;
+    }
+
+    remaining -= content.length;
+    const folder = path.posix.dirname(entryPath);
+    await onEntry({
+      path: entryPath,
+      name: path.posix.basename(entryPath),
+      folder: folder === '.' ? '' : folder,
+      buffer: content,
+    });
+    results.push({ path: entryPath, status: 'extracted', size: content.length });
+  }
+
+  return results;
+}
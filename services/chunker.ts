@@ -0,0 +1,322 @@
+/**
+ * Chunking strategies for knowledge ingestion
+ * Splits extracted document text into the chunks that get embedded
+ *
+ * Strategies:
+ * - paragraph: one chunk per blank-line separated paragraph
+ * - sentence: sentence-aligned windows with character overlap (SentenceChunker)
+ * - token: fixed-size windows measured in estimated tokens, with token overlap
+ * - heading: sections split on headings, each chunk prefixed with its heading path
+ *
+ * Sentences and words are split with the tokenizers of the document language.
+ */
+import { ChunkingConfig, ChunkingStrategy } from '../models';
+import { ParsedSegment } from './fileParser';
+import { UNDETERMINED_LANGUAGE, isSpacelessLanguage } from './language';
+import { TextChunk } from './ragBuilder';
+import {
+  BasicWordTokenizer,
+  SentenceChunker,
+  createSentenceTokenizer,
+  createWordTokenizer,
+  estimateTokens,
+  tokenizeParagraphs,
+} from './tokenizer';
+
+export type { ChunkingConfig, ChunkingStrategy } from '../models';
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = [
+  'paragraph',
+  'sentence',
+  'token',
+  'heading',
+];
+
+export interface ChunkingOptions {
+  strategy?: ChunkingStrategy;
+  chunkSize?: number; // Characters for sentence/heading, estimated tokens for token
+  chunkOverlap?: number; // Same unit as chunkSize
+}
+
+const DEFAULT_PARAMS: Record<ChunkingStrategy, ChunkingConfig['params']> = {
+  paragraph: {},
+  sentence: { chunkSize: 1000, chunkOverlap: 200 },
+  token: { chunkSize: 256, chunkOverlap: 32 },
+  heading: { chunkSize: 1500, chunkOverlap: 150 },
+};
+
+// Largest chunkSize, so a chunk fits the 8191 token input of the OpenAI embedding
+// models. Holds for characters too, as no character counts as more than one token.
+export const MAX_CHUNK_SIZE = 8000;
+
+/**
+ * Validate chunking options and fill in the defaults of the chosen strategy
+ */
+export function resolveChunkingConfig(options: ChunkingOptions = {}): ChunkingConfig {
+  const strategy = options.strategy ?? 'paragraph';
+
+  if (!CHUNKING_STRATEGIES.includes(strategy)) {
+    throw new Error(
+      `Unsupported chunking strategy: ${strategy}. Supported strategies: ${CHUNKING_STRATEGIES.join(', ')}`,
+    );
+  }
+
+  if (strategy === 'paragraph') {
+    return { strategy, params: {} };
+  }
+
+  const chunkSize = options.chunkSize ?? DEFAULT_PARAMS[strategy].chunkSize!;
+  const chunkOverlap = options.chunkOverlap ?? DEFAULT_PARAMS[strategy].chunkOverlap!;
+
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new Error('chunkSize must be a positive integer');
+  }
+
+  if (chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`chunkSize must be at most ${MAX_CHUNK_SIZE}`);
+  }
+
+  if (!Number.isInteger(chunkOverlap) || chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+    throw new Error('chunkOverlap must be a non-negative integer smaller than chunkSize');
+  }
+
+  return { strategy, params: { chunkSize, chunkOverlap } };
+}
+
+/**
+ * Create a sentence chunker with the tokenizers of a language
+ */
+function createSentenceChunker(
+  maxChunkSize: number,
+  chunkOverlap: number,
+  language: string,
+): SentenceChunker {
+  return new SentenceChunker({
+    maxChunkSize,
+    chunkOverlap,
+    sentenceTokenizer: createSentenceTokenizer(language),
+    wordTokenizer: createWordTokenizer(language),
+  });
+}
+
+/**
+ * Split text into windows of at most `maxTokens` estimated tokens
+ * Consecutive windows share roughly `overlapTokens` tokens
+ */
+function chunkByTokens(
+  text: string,
+  maxTokens: number,
+  overlapTokens: number,
+  language: string,
+): string[] {
+  // Words of spaceless languages are segmented with their original spacing kept
+  const spaceless = isSpacelessLanguage(language);
+  const tokenizer = spaceless ? createWordTokenizer(language) : new BasicWordTokenizer(true);
+  const join = (words: string[]) => (spaceless ? tokenizer.formatWords(words) : words.join(' '));
+  const words = tokenizer.tokenize(text);
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < words.length) {
+    let end = start;
+    let tokens = 0;
+
+    while (end < words.length) {
+      const wordTokens = estimateTokens(`${words[end]} `);
+
+      // Always take at least one word so oversized words cannot stall the loop
+      if (end > start && tokens + wordTokens > maxTokens) {
+        break;
+      }
+
+      tokens += wordTokens;
+      end++;
+    }
+
+    chunks.push(join(words.slice(start, end)));
+
+    if (end >= words.length) {
+      break;
+    }
+
+    // Step back over the overlap, but always make progress
+    let next = end;
+    let overlap = 0;
+    while (next > start + 1 && overlap + estimateTokens(`${words[next - 1]} `) <= overlapTokens) {
+      overlap += estimateTokens(`${words[next - 1]} `);
+      next--;
+    }
+
+    start = next;
+  }
+
+  return chunks;
+}
+
+interface Section {
+  headings: string[];
+  body: string;
+}
+
+/**
+ * Detect a heading line and its level
+ * Recognizes Markdown headings, numbered headings ("2.1 Pricing") and short
+ * upper-case lines
+ */
+function parseHeading(line: string): { level: number; title: string } | null {
+  const trimmed = line.trim();
+
+  const markdown = trimmed.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+  if (markdown) {
+    return { level: markdown[1].length, title: markdown[2] };
+  }
+
+  if (trimmed.length === 0 || trimmed.length > 80 || /[.:;,!?]$/.test(trimmed)) {
+    return null;
+  }
+
+  const numbered = trimmed.match(/^(\d+(?:\.\d+)*)\.?\s+([A-Z].*)$/);
+  if (numbered) {
+    return { level: numbered[1].split('.').length, title: trimmed };
+  }
+
+  if (/[A-Z]/.test(trimmed) && trimmed === trimmed.toUpperCase() && /^[A-Z0-9]/.test(trimmed)) {
+    return { level: 1, title: trimmed };
+  }
+
+  return null;
+}
+
+/**
+ * Split text into sections, tracking the heading path of each section
+ */
+function splitSections(text: string): Section[] {
+  const sections: Section[] = [];
+  const path: { level: number; title: string }[] = [];
+  let body: string[] = [];
+
+  const flush = () => {
+    const content = body.join('\n').trim();
+
+    if (content.length > 0) {
+      sections.push({ headings: path.map((heading) => heading.title), body: content });
+    }
+
+    body = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const heading = parseHeading(line);
+
+    if (!heading) {
+      body.push(line);
+      continue;
+    }
+
+    flush();
+
+    while (path.length > 0 && path[path.length - 1].level >= heading.level) {
+      path.pop();
+    }
+
+    path.push(heading);
+  }
+
+  flush();
+
+  return sections;
+}
+
+/**
+ * Split text into heading-aware chunks
+ * Large sections are split further with the sentence chunker
+ */
+function chunkByHeadings(
+  text: string,
+  maxChunkSize: number,
+  chunkOverlap: number,
+  language: string,
+): TextChunk[] {
+  const chunker = createSentenceChunker(maxChunkSize, chunkOverlap, language);
+  const chunks: TextChunk[] = [];
+
+  for (const section of splitSections(text)) {
+    const sectionPath = section.headings.join(' > ');
+    const prefix = sectionPath ? `${sectionPath}\n\n` : '';
+    const parts = section.body.length > maxChunkSize ? chunker.chunk(section.body) : [section.body];
+
+    for (const part of parts) {
+      chunks.push({
+        content: `${prefix}${part.trim()}`,
+        ...(sectionPath && { metadata: { section: sectionPath } }),
+      });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Split text into chunks with the configured strategy
+ * Chunks carry location metadata (e.g. section) when the strategy provides it
+ */
+export function chunkDocument(
+  text: string,
+  config: ChunkingConfig,
+  language: string = UNDETERMINED_LANGUAGE,
+): TextChunk[] {
+  const { chunkSize = 0, chunkOverlap = 0 } = config.params;
+  let chunks: TextChunk[];
+
+  switch (config.strategy) {
+    case 'sentence':
+      chunks = createSentenceChunker(chunkSize, chunkOverlap, language)
+        .chunk(text)
+        .map((content) => ({ content }));
+      break;
+    case 'token':
+      chunks = chunkByTokens(text, chunkSize, chunkOverlap, language).map((content) => ({
+        content,
+      }));
+      break;
+    case 'heading':
+      chunks = chunkByHeadings(text, chunkSize, chunkOverlap, language);
+      break;
+    case 'paragraph':
+    default:
+      chunks = tokenizeParagraphs(text).map((content) => ({ content }));
+      break;
+  }
+
+  return chunks
+    .map((chunk) => ({ ...chunk, content: chunk.content.trim() }))
+    .filter((chunk) => chunk.content.length > 0);
+}
+
+/**
+ * Split document segments (e.g. slides or sheets) into chunks
+ * Chunks never span segments and carry the location metadata of their segment
+ */
+export function chunkSegments(
+  segments: ParsedSegment[],
+  config: ChunkingConfig,
+  language: string = UNDETERMINED_LANGUAGE,
+): TextChunk[] {
+  return segments.flatMap((segment) =>
+    chunkDocument(segment.text, config, language).map((chunk) => ({
+      ...chunk,
+      metadata: { ...segment.metadata, ...chunk.metadata },
+    })),
+  );
+}
+
+/**
+ * Split text into chunk strings with the configured strategy
+ */
+export function chunkText(
+  text: string,
+  config: ChunkingConfig,
+  language: string = UNDETERMINED_LANGUAGE,
+): string[] {
+  return chunkDocument(text, config, language).map((chunk) => chunk.content);
+}
@@ -0,0 +1,271 @@
+/**
+ * Content Extractor
+ * Readability-style extraction of the main content of a web page
+ *
+ * Features:
+ * - <main>, role="main" and <article> detection
+ * - Text-density scoring fallback for pages without semantic containers
+ * - Boilerplate removal (navigation, cookie banners, sidebars, share widgets, ...)
+ * - Headings kept as Markdown headings and lists as "-" / "1." items, so the
+ *   heading chunker can use the page structure
+ */
+import * as cheerio from 'cheerio';
+
+// DOM node types as exposed by cheerio
+type DomDocument =
+  ReturnType<cheerio.CheerioAPI['root']> extends cheerio.Cheerio<infer T> ? T : never;
+type DomNode = DomDocument['children'][number];
+type DomElement = Extract<DomNode, { tagName: string }>;
+
+// Elements that never hold page content. Forms are kept: ASP.NET WebForms and some
+// CMSs wrap the whole page in one, so only their controls are removed
+const NON_CONTENT_SELECTOR = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'canvas',
+  'iframe',
+  'input',
+  'select',
+  'textarea',
+  'button',
+  'nav',
+  'aside',
+  'dialog',
+  '[role="navigation"]',
+  '[role="banner"]',
+  '[role="contentinfo"]',
+  '[role="complementary"]',
+  '[role="dialog"]',
+  '[aria-hidden="true"]',
+  '[hidden]',
+].join(', ');
+
+// Class or id fragments of boilerplate blocks
+const BOILERPLATE_PATTERN =
+  /cookie|consent|gdpr|banner|popup|modal|newsletter|subscribe|share|social|breadcrumb|sidebar|menu|comment|related|advert|promo|skip-link/i;
+
+// Class or id fragments that outweigh a boilerplate match (e.g. "content-with-sidebar")
+const CONTENT_PATTERN = /article|body|content|main|post|entry/i;
+
+// Elements whose class or id should not mark them as boilerplate
+const PROTECTED_TAGS = new Set(['html', 'body', 'main', 'article']);
+
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'blockquote',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'header',
+  'main',
+  'ol',
+  'p',
+  'section',
+  'table',
+  'ul',
+]);
+
+// Minimum text length for a semantic container to be trusted over scoring
+const MIN_CONTAINER_LENGTH = 140;
+
+// Minimum text length for a paragraph to count towards its container's score
+const MIN_PARAGRAPH_LENGTH = 25;
+
+function isElement(node: DomNode): node is DomElement {
+  return 'tagName' in node;
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+/**
+ * Remove navigation, scripts and boilerplate blocks from the document
+ */
+function removeBoilerplate($: cheerio.CheerioAPI): void {
+  $(NON_CONTENT_SELECTOR).remove();
+
+  // Site-wide header and footer, but not the header/footer of an article
+  $('body > header, body > footer, body > div > header, body > div > footer').remove();
+
+  $('[class], [id]').each((_index, element) => {
+    if (PROTECTED_TAGS.has(element.tagName)) {
+      return;
+    }
+
+    const marker = `${$(element).attr('class') ?? ''} ${$(element).attr('id') ?? ''}`;
+
+    if (
+      BOILERPLATE_PATTERN.test(marker) &&
+      !CONTENT_PATTERN.test(marker) &&
+      $(element).find('main, article, [role="main"]').length === 0
+    ) {
+      $(element).remove();
+    }
+  });
+}
+
+/**
+ * Share of the text of an element that is link text
+ */
+function linkDensity($: cheerio.CheerioAPI, element: DomElement): number {
+  const textLength = collapseWhitespace($(element).text()).trim().length;
+
+  if (textLength === 0) {
+    return 1;
+  }
+
+  const linkLength = $(element)
+    .find('a')
+    .toArray()
+    .reduce((sum, link) => sum + collapseWhitespace($(link).text()).trim().length, 0);
+
+  return linkLength / textLength;
+}
+
+/**
+ * Find the element holding the main content by text-density scoring
+ * Paragraphs add to the score of their parent and, halved, their grandparent;
+ * containers are then penalized by their link density
+ */
+function findDensestElement($: cheerio.CheerioAPI): DomElement | null {
+  const scores = new Map<DomElement, number>();
+
+  $('p, pre, td, li, blockquote').each((_index, element) => {
+    const text = collapseWhitespace($(element).text()).trim();
+
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = element.parent && isElement(element.parent) ? element.parent : null;
+    const grandparent = parent?.parent && isElement(parent.parent) ? parent.parent : null;
+
+    if (parent) {
+      scores.set(parent, (scores.get(parent) ?? 0) + score);
+    }
+
+    if (grandparent) {
+      scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+    }
+  });
+
+  let best: DomElement | null = null;
+  let bestScore = 0;
+
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, element));
+
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pick the element holding the main content of the page
+ */
+function findContentElement($: cheerio.CheerioAPI): DomElement | null {
+  const textLength = (element: DomElement) => collapseWhitespace($(element).text()).trim().length;
+
+  const containers = $('main, [role="main"], article').toArray();
+  const largest = containers.sort((a, b) => textLength(b) - textLength(a))[0];
+
+  if (largest && textLength(largest) >= MIN_CONTAINER_LENGTH) {
+    return largest;
+  }
+
+  return findDensestElement($) ?? largest ?? $('body').get(0) ?? null;
+}
+
+/**
+ * Render an element as text, keeping headings and lists
+ */
+function renderNode($: cheerio.CheerioAPI, node: DomNode, listDepth: number): string {
+  if (!isElement(node)) {
+    return node.type === 'text' ? collapseWhitespace($(node).text()) : '';
+  }
+
+  const tag = node.tagName.toLowerCase();
+  const renderChildren = (depth: number = listDepth) =>
+    node.children.map((child) => renderNode($, child, depth)).join('');
+
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) {
+    const title = collapseWhitespace($(node).text()).trim();
+
+    return title ? `\n\n${'#'.repeat(Number(heading[1]))} ${title}\n\n` : '';
+  }
+
+  switch (tag) {
+    case 'br':
+      return '\n';
+    case 'pre':
+      return `\n\n${$(node).text()}\n\n`;
+    case 'ul':
+    case 'ol':
+      // Top-level lists are paragraphs of their own; nested lists stay in their item
+      return listDepth === 0
+        ? `\n\n${renderChildren(listDepth + 1)}\n\n`
+        : `\n${renderChildren(listDepth + 1)}`;
+    case 'li': {
+      const list = node.parent && isElement(node.parent) ? node.parent : null;
+      const position = list ? $(list).children('li').index(node) + 1 : 1;
+      const marker = list?.tagName.toLowerCase() === 'ol' ? `${position}.` : '-';
+      const indent = '  '.repeat(Math.max(listDepth - 1, 0));
+      const text = renderChildren()
+        .trim()
+        .replace(/\n{2,}/g, '\n');
+
+      return text ? `\n${indent}${marker} ${text}` : '';
+    }
+    case 'tr':
+      return `\n${renderChildren()}`;
+    case 'td':
+    case 'th':
+      return `${renderChildren().trim()} | `;
+    default:
+      return BLOCK_TAGS.has(tag) ? `\n\n${renderChildren()}\n\n` : renderChildren();
+  }
+}
+
+/**
+ * Tidy rendered text: trim lines (keeping list indentation) and collapse blank lines
+ */
+function tidy(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (/^\s*(-|\d+\.) /.test(line) ? line.trimEnd() : line.trim()))
+    .map((line) => line.replace(/\s*\|$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extract the readable main content of an HTML document
+ * Returns an empty string when the page has no readable content
+ */
+export function extractReadableContent($: cheerio.CheerioAPI): string {
+  removeBoilerplate($);
+
+  const content = findContentElement($);
+
+  if (!content) {
+    return '';
+  }
+
+  return tidy(renderNode($, content, 0));
+}
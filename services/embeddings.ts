@@ -0,0 +1,255 @@
+/**
+ * Embedding Providers
+ * Turn texts into vectors for knowledge ingestion and search
+ *
+ * Providers:
+ * - openai: OpenAI embeddings API, or any OpenAI-compatible endpoint via a base URL
+ * - azure: Azure OpenAI deployments
+ * - local: deterministic hashed n-gram vectors that need no network access
+ */
+import OpenAI, { AzureOpenAI } from 'openai';
+
+import { EmbeddingProviderName, EmbeddingTarget } from '../models';
+
+export type { EmbeddingProviderName, EmbeddingTarget } from '../models';
+
+export interface EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ['openai', 'azure', 'local'];
+
+interface OpenAIEmbeddingProviderOptions {
+  apiKey?: string;
+  baseURL?: string; // Set for OpenAI-compatible endpoints
+  model?: string;
+  dimension?: number;
+  sendDimensions?: boolean; // Some compatible endpoints reject the `dimensions` parameter
+}
+
+interface AzureEmbeddingProviderOptions {
+  apiKey?: string;
+  endpoint?: string;
+  apiVersion?: string;
+  deployment: string;
+  model?: string;
+  dimension?: number;
+}
+
+interface LocalEmbeddingProviderOptions {
+  dimension?: number;
+}
+
+/**
+ * Whether an embeddings request error is transient and worth retrying
+ * (rate limits, server errors and connection failures)
+ */
+export function isRetryableEmbeddingError(error: unknown): boolean {
+  if (error instanceof OpenAI.APIError) {
+    return error.status === undefined || error.status === 429 || error.status >= 500;
+  }
+
+  return false;
+}
+
+/**
+ * Request embeddings and place them by input index (the API may reorder them)
+ */
+async function requestEmbeddings(
+  client: OpenAI,
+  texts: string[],
+  model: string,
+  dimensions?: number,
+): Promise<number[][]> {
+  const response = await client.embeddings.create({
+    input: texts,
+    model,
+    ...(dimensions && { dimensions }),
+  });
+
+  const embeddings: number[][] = new Array(texts.length);
+  for (const item of response.data) {
+    embeddings[item.index] = item.embedding;
+  }
+
+  return embeddings;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number;
+  private sendDimensions: boolean;
+  private client: OpenAI;
+
+  constructor(options: OpenAIEmbeddingProviderOptions = {}) {
+    this.model = options.model ?? 'text-embedding-3-small';
+    this.dimension = options.dimension ?? 1536;
+    this.sendDimensions = options.sendDimensions ?? true;
+
+    // Retries are handled by the callers, which know their batching
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? process.env.OPENAI_API_KEY,
+      ...(options.baseURL && { baseURL: options.baseURL }),
+      maxRetries: 0,
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return requestEmbeddings(
+      this.client,
+      texts,
+      this.model,
+      this.sendDimensions ? this.dimension : undefined,
+    );
+  }
+}
+
+export class AzureEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number;
+  private client: AzureOpenAI;
+
+  constructor(options: AzureEmbeddingProviderOptions) {
+    this.model = options.model ?? options.deployment;
+    this.dimension = options.dimension ?? 1536;
+
+    this.client = new AzureOpenAI({
+      apiKey: options.apiKey ?? process.env.AZURE_OPENAI_API_KEY,
+      endpoint: options.endpoint ?? process.env.AZURE_OPENAI_ENDPOINT,
+      apiVersion: options.apiVersion ?? process.env.OPENAI_API_VERSION ?? '2024-10-21',
+      deployment: options.deployment,
+      maxRetries: 0,
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    // Azure routes by deployment; the model field is passed through for logging only
+    return requestEmbeddings(this.client, texts, this.model, this.dimension);
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'local-hashed-ngrams';
+  readonly dimension: number;
+
+  constructor(options: LocalEmbeddingProviderOptions = {}) {
+    this.dimension = options.dimension ?? 384;
+  }
+
+  /**
+   * Hash words and character trigrams into a signed bag-of-features vector
+   * Identical texts always produce identical vectors, and texts sharing words or
+   * word fragments get a positive cosine similarity
+   */
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 1 ? 1 : -1;
+      vector[(hash >>> 1) % this.dimension] += sign * weight;
+    };
+
+    for (const word of words) {
+      add(`w:${word}`, 1);
+
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`g:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+}
+
+/**
+ * Name of the embedding provider selected by EMBEDDING_PROVIDER
+ */
+function configuredProviderName(): EmbeddingProviderName {
+  return (process.env.EMBEDDING_PROVIDER || 'openai') as EmbeddingProviderName;
+}
+
+/**
+ * Create the embedding provider configured by environment variables
+ *
+ * EMBEDDING_PROVIDER selects openai (default), azure or local. EMBEDDING_MODEL
+ * and EMBEDDING_DIMENSION override the provider defaults; EMBEDDING_BASE_URL
+ * points the openai provider at an OpenAI-compatible endpoint. Fields of `target`
+ * take precedence over the environment.
+ */
+export function createEmbeddingProvider(target: EmbeddingTarget = {}): EmbeddingProvider {
+  const configured = configuredProviderName();
+  const provider = target.provider ?? configured;
+
+  // The configured model and dimension only apply to the configured provider
+  const env: NodeJS.ProcessEnv = provider === configured ? process.env : {};
+  const model = target.model ?? (env.EMBEDDING_MODEL || undefined);
+  const dimension =
+    target.dimension ??
+    (env.EMBEDDING_DIMENSION ? parseInt(env.EMBEDDING_DIMENSION, 10) : undefined);
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider({
+        model,
+        dimension,
+        baseURL: process.env.EMBEDDING_BASE_URL || undefined,
+        ...(process.env.EMBEDDING_API_KEY && { apiKey: process.env.EMBEDDING_API_KEY }),
+        sendDimensions: process.env.EMBEDDING_SEND_DIMENSIONS !== 'false',
+      });
+    case 'azure':
+      if (!process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT) {
+        throw new Error('AZURE_OPENAI_EMBEDDING_DEPLOYMENT is required for the azure provider');
+      }
+
+      return new AzureEmbeddingProvider({
+        deployment: process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT,
+        model,
+        dimension,
+      });
+    case 'local':
+      return new LocalEmbeddingProvider({ dimension });
+    default:
+      throw new Error(
+        `Unsupported embedding provider: ${provider}. Supported providers: ${EMBEDDING_PROVIDERS.join(', ')}`,
+      );
+  }
+}
+
+/**
+ * Fill in the provider, model and dimension a target resolves to
+ * Unset fields come from the environment and the provider defaults
+ */
+export function resolveEmbeddingTarget(target: EmbeddingTarget = {}): Required<EmbeddingTarget> {
+  const provider = createEmbeddingProvider(target);
+
+  return {
+    provider: target.provider ?? configuredProviderName(),
+    model: provider.model,
+    dimension: provider.dimension,
+  };
+}
@@ -1,23 +1,272 @@
 /**
  * File Parser Service
- * Extracts text content from various file formats (PDF, DOCX, TXT, DOC)
+ * Extracts text content from various file formats (PDF, DOCX, DOC, TXT, Markdown, HTML, CSV,
+ * PPTX, XLSX)
+ *
+ * PDFs, slide decks and spreadsheets are also returned as segments (one per page,
+ * slide or sheet) carrying their location, so chunks can cite "Deck X, slide 7"
  */
+import * as cheerio from 'cheerio';
 import * as fs from 'fs/promises';
 import * as mammoth from 'mammoth';
+import * as path from 'path';
 import { PDFParse } from 'pdf-parse';
+import WordExtractor from 'word-extractor';
+
+import { ZipEntryReader, openZip } from './archive';
+import { extractReadableContent } from './contentExtractor';
+import { ChunkMetadata } from './ragBuilder';
+
+export const SUPPORTED_FILE_FORMATS = [
+  'pdf',
+  'docx',
+  'doc',
+  'txt',
+  'md',
+  'markdown',
+  'html',
+  'htm',
+  'csv',
+  'pptx',
+  'xlsx',
+];
+
+// A part of a document with its location, e.g. one slide of a deck
+export interface ParsedSegment {
+  text: string;
+  metadata: ChunkMetadata;
+}
+
+export interface ParsedDocument {
+  text: string;
+  segments?: ParsedSegment[]; // Set for formats with locations (pages, slides, sheets)
+}
+
+interface Relationship {
+  type: string;
+  target: string; // Resolved path inside the archive
+}
+
+/**
+ * Decode a UTF-8 text file, dropping the byte order mark
+ */
+function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf-8').replace(/^\uFEFF/, '');
+}
+
+/**
+ * Split CSV text into rows of fields
+ * Handles quoted fields with embedded delimiters, quotes and line breaks
+ */
+function parseCSVRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim().length > 0));
+}
+
+/**
+ * Guess the CSV delimiter from the header line
+ */
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0];
+  const candidates = [',', ';', '\t', '|'];
+  const counts = candidates.map((candidate) => header.split(candidate).length - 1);
+
+  return candidates[counts.indexOf(Math.max(...counts))] ?? ',';
+}
+
+// Lines at the top and bottom of each PDF page checked for running headers and footers
+const PAGE_EDGE_LINES = 2;
+
+/**
+ * Key of a page edge line for header/footer comparison
+ * The page's own number is masked, so "Page 3 of 40" on page 3 matches "Page 4 of 40" on page 4
+ */
+function edgeLineKey(line: string, pageNumber: number): string {
+  return line
+    .replace(new RegExp(`(^|\\D)${pageNumber}(?=\\D|$)`, 'g'), '$1#')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Whether a line is only a page number ("3", "- 3 -", "Page 3", "3 of 40", "3/40")
+ */
+function isPageNumberLine(line: string): boolean {
+  return /^[-–—\s]*(page\s*)?\d+(\s*(of|\/)\s*\d+)?[-–—\s]*$/i.test(line.trim());
+}
+
+/**
+ * Remove running headers, footers and page numbers from the text of PDF pages
+ * A line counts as a header or footer when the same line (up to the page number)
+ * sits at the top or bottom of at least half of the pages
+ */
+function stripRunningHeaders(pages: { num: number; text: string }[]): string[] {
+  const pageLines = pages.map(({ text }) =>
+    text.split('\n').filter((line) => line.trim().length > 0),
+  );
+  const isEdge = (lines: string[], index: number) =>
+    index < PAGE_EDGE_LINES || index >= lines.length - PAGE_EDGE_LINES;
+
+  const counts = new Map<string, number>();
+  pageLines.forEach((lines, page) => {
+    const keys = new Set(
+      lines
+        .filter((_line, index) => isEdge(lines, index))
+        .map((line) => edgeLineKey(line, pages[page].num)),
+    );
+
+    keys.forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1));
+  });
+
+  const threshold = Math.max(2, Math.ceil(pages.length / 2));
+
+  return pageLines.map((lines, page) =>
+    lines
+      .filter((line, index) => {
+        if (!isEdge(lines, index)) {
+          return true;
+        }
+
+        const repeated = (counts.get(edgeLineKey(line, pages[page].num)) ?? 0) >= threshold;
+
+        return !repeated && !isPageNumberLine(line);
+      })
+      .join('\n')
+      .trim(),
+  );
+}
+
+/**
+ * Join document segments into plain text
+ */
+function segmentsToText(segments: ParsedSegment[]): string {
+  return segments.map((segment) => segment.text).join('\n\n');
+}
+
+/**
+ * Read an XML part of an Office Open XML archive
+ */
+async function readXml(
+  readPart: ZipEntryReader,
+  partPath: string,
+): Promise<cheerio.CheerioAPI | null> {
+  const content = await readPart(partPath);
+
+  return content ? cheerio.load(content.toString('utf8'), { xmlMode: true }) : null;
+}
+
+/**
+ * Read the relationships of an archive part, keyed by relationship id
+ */
+async function readRelationships(
+  readPart: ZipEntryReader,
+  partPath: string,
+): Promise<Map<string, Relationship>> {
+  const directory = path.posix.dirname(partPath);
+  const $ = await readXml(readPart, `${directory}/_rels/${path.posix.basename(partPath)}.rels`);
+  const relationships = new Map<string, Relationship>();
+
+  $?.('Relationship').each((_index, element) => {
+    const target = $(element).attr('Target') ?? '';
+
+    relationships.set($(element).attr('Id') ?? '', {
+      type: $(element).attr('Type') ?? '',
+      target: target.startsWith('/')
+        ? target.slice(1)
+        : path.posix.normalize(path.posix.join(directory, target)),
+    });
+  });
+
+  return relationships;
+}
+
+/**
+ * Text of the paragraphs (<a:p>) in a DrawingML element, one line per paragraph
+ */
+function drawingText($: cheerio.CheerioAPI, element: Parameters<cheerio.CheerioAPI>[0]): string[] {
+  return $(element)
+    .find('a\\:p')
+    .toArray()
+    .map((paragraph) =>
+      $(paragraph)
+        .find('a\\:t')
+        .toArray()
+        .map((run) => $(run).text())
+        .join('')
+        .trim(),
+    )
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Zero-based column index of a cell reference such as "C7"
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '').toUpperCase();
+
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
 
 export class FileParser {
   /**
-   * Parse a PDF file and extract text content
+   * Parse a PDF file into one segment per page
+   * Running headers, footers and page numbers are removed
    */
-  private async parsePDF(buffer: Buffer): Promise<string> {
+  private async parsePDF(buffer: Buffer): Promise<ParsedSegment[]> {
+    const parser = new PDFParse({ data: buffer });
+
     try {
-      const parser = new PDFParse({ data: buffer });
       const data = await parser.getText();
+      const texts = stripRunningHeaders(data.pages);
 
-      return data.text;
+      return data.pages
+        .map((page, index) => ({ text: texts[index], metadata: { page: page.num } }))
+        .filter((segment) => segment.text.length > 0);
     } catch (error) {
       throw new Error(`Failed to parse PDF: ${error}`);
+    } finally {
+      await parser.destroy();
     }
   }
 
@@ -46,19 +295,294 @@ export class FileParser {
   }
 
   /**
-   * Parse a DOC file (legacy Word format)
-   * Note: mammoth primarily supports DOCX, but we'll attempt to parse DOC files
+   * Parse a Markdown file
+   * Headings are kept as Markdown headings so the heading chunker can use the
+   * hierarchy; inline formatting, front matter and HTML comments are removed
    */
-  private async parseDOC(buffer: Buffer): Promise<string> {
+  private async parseMarkdown(buffer: Buffer): Promise<string> {
+    const lines = decodeText(buffer)
+      .replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '') // Front matter
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .split(/\r?\n/);
+    const output: string[] = [];
+    let inFence = false;
+
+    for (const line of lines) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        continue;
+      }
+
+      if (inFence) {
+        output.push(line);
+        continue;
+      }
+
+      // Setext headings ("Title" underlined with === or ---)
+      const previous = output[output.length - 1];
+      if (/^\s*(=+|-+)\s*$/.test(line) && previous && previous.trim() && !/^#/.test(previous)) {
+        output[output.length - 1] =
+          `${line.trim().startsWith('=') ? '#' : '##'} ${previous.trim()}`;
+        continue;
+      }
+
+      output.push(
+        line
+          .replace(/^\s{0,3}>\s?/, '') // Blockquotes
+          .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images
+          .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // Links
+          .replace(/(\*\*|__)(.+?)\1/g, '$2') // Bold
+          .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2') // Italic
+          .replace(/`([^`]+)`/g, '$1') // Inline code
+          .replace(/^\s*([-*_]\s*){3,}$/, ''), // Horizontal rules
+      );
+    }
+
+    return output.join('\n').trim();
+  }
+
+  /**
+   * Parse an HTML file, keeping only its readable main content
+   */
+  private async parseHTML(buffer: Buffer): Promise<string> {
+    return extractReadableContent(cheerio.load(decodeText(buffer)));
+  }
+
+  /**
+   * Parse a CSV file
+   * Every row becomes a self-contained record of "Header: value" lines, separated
+   * by blank lines so each row can be chunked on its own
+   */
+  private async parseCSV(buffer: Buffer): Promise<string> {
+    const text = decodeText(buffer);
+    const [header, ...rows] = parseCSVRows(text, detectDelimiter(text));
+
+    if (!header) {
+      return '';
+    }
+
+    const columns = header.map((name, index) => name.trim() || `Column ${index + 1}`);
+
+    return rows
+      .map((row) =>
+        row
+          .map((value, index) => [columns[index] ?? `Column ${index + 1}`, value.trim()])
+          .filter(([, value]) => value.length > 0)
+          .map(([column, value]) => `${column}: ${value.replace(/\s*\r?\n\s*/g, ' ')}`)
+          .join('\n'),
+      )
+      .filter((record) => record.length > 0)
+      .join('\n\n');
+  }
+
+  /**
+   * Parse a PPTX deck into one segment per slide
+   * Each slide keeps its number and title; speaker notes are appended to the slide text
+   */
+  private async parsePPTX(buffer: Buffer): Promise<ParsedSegment[]> {
+    let readPart: ZipEntryReader;
     try {
-      // Try to parse as DOCX (mammoth may handle some DOC files)
-      const result = await mammoth.extractRawText({ buffer });
+      readPart = await openZip(buffer);
+    } catch (error) {
+      throw new Error(`Failed to parse PPTX: ${error}`);
+    }
 
-      return result.value;
+    const presentation = await readXml(readPart, 'ppt/presentation.xml');
+    if (!presentation) {
+      throw new Error('Failed to parse PPTX: ppt/presentation.xml is missing');
+    }
+
+    // Slides in presentation order
+    const relationships = await readRelationships(readPart, 'ppt/presentation.xml');
+    const slidePaths = presentation('p\\:sldId')
+      .toArray()
+      .map((element) => relationships.get(presentation(element).attr('r:id') ?? '')?.target)
+      .filter((target): target is string => Boolean(target));
+
+    const segments: ParsedSegment[] = [];
+
+    for (const [index, slidePath] of slidePaths.entries()) {
+      const slide = await readXml(readPart, slidePath);
+      if (!slide) {
+        continue;
+      }
+
+      const slideNumber = index + 1;
+      let title = '';
+      const body: string[] = [];
+
+      slide('p\\:sp').each((_index, shape) => {
+        const placeholder = slide(shape).find('p\\:ph').attr('type');
+        const lines = drawingText(slide, shape);
+
+        if (!title && (placeholder === 'title' || placeholder === 'ctrTitle')) {
+          title = lines.join(' ');
+        } else {
+          body.push(...lines);
+        }
+      });
+
+      // Table cells are outside of shapes
+      slide('a\\:tbl a\\:tr').each((_index, row) => {
+        const cells = slide(row)
+          .find('a\\:tc')
+          .toArray()
+          .map((cell) => drawingText(slide, cell).join(' '));
+        body.push(cells.join(' | '));
+      });
+
+      const notes: string[] = [];
+      const slideRelationships = await readRelationships(readPart, slidePath);
+
+      for (const relationship of slideRelationships.values()) {
+        if (!relationship.type.endsWith('/notesSlide')) {
+          continue;
+        }
+
+        const notesSlide = await readXml(readPart, relationship.target);
+        notesSlide?.('p\\:sp').each((_index, shape) => {
+          if (notesSlide(shape).find('p\\:ph').attr('type') === 'body') {
+            notes.push(...drawingText(notesSlide, shape));
+          }
+        });
+      }
+
+      const parts = [
+        `Slide ${slideNumber}${title ? `: ${title}` : ''}`,
+        body.join('\n'),
+        notes.length > 0 ? `Speaker notes:\n${notes.join('\n')}` : '',
+      ].filter((part) => part.length > 0);
+
+      // Skip slides without any text besides their number
+      if (parts.length > 1 || title) {
+        segments.push({
+          text: parts.join('\n\n'),
+          metadata: { slide: slideNumber, ...(title && { section: title }) },
+        });
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Parse an XLSX workbook into one segment per sheet
+   * The first non-empty row of a sheet is its header; every other row becomes a
+   * "Header: value" record labelled with the sheet name, separated by blank lines
+   * so rows chunk on their own
+   */
+  private async parseXLSX(buffer: Buffer): Promise<ParsedSegment[]> {
+    let readPart: ZipEntryReader;
+    try {
+      readPart = await openZip(buffer);
     } catch (error) {
-      throw new Error(
-        `Failed to parse DOC: ${error}. Legacy DOC format may not be fully supported. Please convert to DOCX.`,
+      throw new Error(`Failed to parse XLSX: ${error}`);
+    }
+
+    const workbook = await readXml(readPart, 'xl/workbook.xml');
+    if (!workbook) {
+      throw new Error('Failed to parse XLSX: xl/workbook.xml is missing');
+    }
+
+    const sharedStrings: string[] = [];
+    const strings = await readXml(readPart, 'xl/sharedStrings.xml');
+    strings?.('si').each((_index, item) => {
+      sharedStrings.push(
+        strings(item)
+          .find('t')
+          .toArray()
+          .map((text) => strings(text).text())
+          .join(''),
       );
+    });
+
+    const relationships = await readRelationships(readPart, 'xl/workbook.xml');
+    const segments: ParsedSegment[] = [];
+
+    for (const element of workbook('sheet').toArray()) {
+      const name = workbook(element).attr('name') ?? '';
+      const target = relationships.get(workbook(element).attr('r:id') ?? '')?.target;
+      const sheet = target ? await readXml(readPart, target) : null;
+
+      if (!sheet) {
+        continue;
+      }
+
+      const rows = sheet('sheetData row')
+        .toArray()
+        .map((row) => {
+          const values: string[] = [];
+          let position = 0;
+
+          sheet(row)
+            .find('c')
+            .each((_index, cell) => {
+              const type = sheet(cell).attr('t');
+              const raw =
+                type === 'inlineStr'
+                  ? sheet(cell).find('is t').text()
+                  : sheet(cell).children('v').text();
+              let value = raw;
+
+              if (type === 's') {
+                value = sharedStrings[Number(raw)] ?? '';
+              } else if (type === 'b') {
+                value = raw === '1' ? 'TRUE' : 'FALSE';
+              }
+
+              // Cells without a reference follow the previous cell
+              const reference = sheet(cell).attr('r');
+              position = reference ? columnIndex(reference) : position;
+              values[position++] = value.trim();
+            });
+
+          return Array.from(values, (value) => value ?? '');
+        })
+        .filter((values) => values.some((value) => value.length > 0));
+
+      const [header, ...records] = rows;
+      if (!header) {
+        continue;
+      }
+
+      const columns = header.map((column, index) => column || `Column ${index + 1}`);
+      const text = records
+        .map((values) =>
+          values
+            .map((value, index) => [columns[index] ?? `Column ${index + 1}`, value])
+            .filter(([, value]) => value.length > 0)
+            .map(([column, value]) => `${column}: ${value.replace(/\s*\r?\n\s*/g, ' ')}`)
+            .join('\n'),
+        )
+        .filter((record) => record.length > 0)
+        .map((record) => `Sheet: ${name}\n${record}`)
+        .join('\n\n');
+
+      if (text.length > 0) {
+        segments.push({ text, metadata: { sheet: name } });
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Parse a DOC file (legacy Word 97-2003 binary format)
+   * Files saved as DOCX with a .doc extension are recognized as well
+   */
+  private async parseDOC(buffer: Buffer): Promise<string> {
+    try {
+      const document = await new WordExtractor().extract(buffer);
+
+      return [
+        document.getBody(),
+        document.getTextboxes({ includeHeadersAndFooters: false, includeBody: false }),
+      ]
+        .map((text) => text.trim())
+        .filter((text) => text.length > 0)
+        .join('\n\n');
+    } catch (error) {
+      throw new Error(`Failed to parse DOC: ${error}`);
     }
   }
 
@@ -70,20 +594,56 @@ export class FileParser {
 
     switch (extension) {
       case 'pdf':
-        return this.parsePDF(buffer);
+        return segmentsToText(await this.parsePDF(buffer));
       case 'docx':
         return this.parseDOCX(buffer);
       case 'doc':
         return this.parseDOC(buffer);
       case 'txt':
         return this.parseTXT(buffer);
+      case 'md':
+      case 'markdown':
+        return this.parseMarkdown(buffer);
+      case 'html':
+      case 'htm':
+        return this.parseHTML(buffer);
+      case 'csv':
+        return this.parseCSV(buffer);
+      case 'pptx':
+        return segmentsToText(await this.parsePPTX(buffer));
+      case 'xlsx':
+        return segmentsToText(await this.parseXLSX(buffer));
       default:
         throw new Error(
-          `Unsupported file format: ${extension}. Supported formats: PDF, DOCX, DOC, TXT`,
+          `Unsupported file format: ${extension}. Supported formats: ${SUPPORTED_FILE_FORMATS.join(', ')}`,
         );
     }
   }
 
+  /**
+   * Parse a file based on its extension, keeping page, slide and sheet locations as segments
+   */
+  async parseDocument(buffer: Buffer, filename: string): Promise<ParsedDocument> {
+    const extension = filename.toLowerCase().split('.').pop();
+    let segments: ParsedSegment[];
+
+    switch (extension) {
+      case 'pdf':
+        segments = await this.parsePDF(buffer);
+        break;
+      case 'pptx':
+        segments = await this.parsePPTX(buffer);
+        break;
+      case 'xlsx':
+        segments = await this.parseXLSX(buffer);
+        break;
+      default:
+        return { text: await this.parseFile(buffer, filename) };
+    }
+
+    return { text: segmentsToText(segments), segments };
+  }
+
   /**
    * Parse a file from a file path
    */
@@ -103,7 +663,7 @@ export class FileParser {
   isSupportedFormat(filename: string): boolean {
     const extension = filename.toLowerCase().split('.').pop();
 
-    return ['pdf', 'docx', 'doc', 'txt'].includes(extension || '');
+    return SUPPORTED_FILE_FORMATS.includes(extension || '');
   }
 }
 
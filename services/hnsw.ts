@@ -0,0 +1,484 @@
+/**
+ * HNSW Index
+ * In-memory approximate nearest-neighbour index (Hierarchical Navigable Small World
+ * graphs) over cosine similarity
+ *
+ * Features:
+ * - Incremental inserts; deletes are tombstoned and compacted away once they pile up
+ * - Seeded level generation, so the same inserts always build the same graph
+ * - Snapshots to and from a single buffer (JSON graph header followed by float32 vectors)
+ */
+
+export interface HnswOptions {
+  dimension: number;
+  m?: number; // Links per node on the upper layers (twice as many on layer 0)
+  efConstruction?: number; // Candidate list size while inserting
+  efSearch?: number; // Default candidate list size while searching
+  seed?: number;
+}
+
+export interface HnswMatch {
+  id: string;
+  score: number; // Cosine similarity
+}
+
+interface HnswSnapshotHeader {
+  version: number;
+  dimension: number;
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+  seed: number;
+  entryPoint: number;
+  maxLevel: number;
+  ids: string[];
+  levels: number[];
+  links: number[][][];
+  deleted?: number[]; // Tombstoned nodes; missing in version 1 snapshots
+}
+
+interface Candidate {
+  node: number;
+  distance: number;
+}
+
+const SNAPSHOT_VERSION = 2;
+
+// Versions fromBuffer can read; version 1 snapshots never hold tombstones
+const READABLE_SNAPSHOT_VERSIONS = [1, 2];
+
+// Share of tombstoned nodes that triggers a compaction
+const COMPACT_RATIO = 0.5;
+
+/**
+ * Deterministic 32-bit PRNG (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Insert a candidate into a list sorted by ascending distance
+ */
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+
+    if (list[mid].distance < candidate.distance) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  list.splice(low, 0, candidate);
+}
+
+export class HnswIndex {
+  readonly dimension: number;
+  private m: number;
+  private maxLinks0: number;
+  private efConstruction: number;
+  private efSearch: number;
+  private seed: number;
+  private levelFactor: number;
+  private random: () => number;
+
+  private ids: string[] = [];
+  private vectors: Float32Array[] = [];
+  private levels: number[] = [];
+  private links: number[][][] = []; // links[node][level] = neighbour nodes
+  private deleted: boolean[] = [];
+  private nodesById = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private tombstones = 0;
+
+  constructor(options: HnswOptions) {
+    this.dimension = options.dimension;
+    this.m = options.m ?? 16;
+    this.maxLinks0 = this.m * 2;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 64;
+    this.seed = options.seed ?? 42;
+    this.levelFactor = 1 / Math.log(this.m);
+    this.random = createRandom(this.seed);
+  }
+
+  /**
+   * Number of live (not deleted) vectors
+   */
+  get size(): number {
+    return this.nodesById.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodesById.has(id);
+  }
+
+  /**
+   * Unit-length float32 copy of a vector, so the dot product is the cosine similarity
+   */
+  private normalize(vector: number[] | Float32Array): Float32Array {
+    if (vector.length !== this.dimension) {
+      throw new Error(`Expected a ${this.dimension}-dimensional vector, got ${vector.length}`);
+    }
+
+    const normalized = Float32Array.from(vector);
+    let norm = 0;
+
+    for (let i = 0; i < normalized.length; i++) {
+      norm += normalized[i] * normalized[i];
+    }
+
+    norm = Math.sqrt(norm);
+
+    if (norm > 0) {
+      for (let i = 0; i < normalized.length; i++) {
+        normalized[i] /= norm;
+      }
+    }
+
+    return normalized;
+  }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+    }
+
+    return 1 - dot;
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - this.random()) * this.levelFactor);
+  }
+
+  /**
+   * Best-first search of one layer, returning up to `ef` nodes closest to the query
+   */
+  private searchLayer(query: Float32Array, entries: Candidate[], ef: number, level: number) {
+    const visited = new Set<number>(entries.map((entry) => entry.node));
+    const candidates = [...entries].sort((a, b) => a.distance - b.distance);
+    const nearest = [...candidates];
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+
+      if (nearest.length >= ef && current.distance > nearest[nearest.length - 1].distance) {
+        break;
+      }
+
+      for (const neighbour of this.links[current.node][level] ?? []) {
+        if (visited.has(neighbour)) {
+          continue;
+        }
+
+        visited.add(neighbour);
+        const distance = this.distance(query, this.vectors[neighbour]);
+
+        if (nearest.length < ef || distance < nearest[nearest.length - 1].distance) {
+          insertSorted(candidates, { node: neighbour, distance });
+          insertSorted(nearest, { node: neighbour, distance });
+
+          if (nearest.length > ef) {
+            nearest.pop();
+          }
+        }
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Pick the links of a node among candidates sorted by distance, preferring
+   * candidates that are closer to the node than to the links already picked, so
+   * the graph keeps links towards every direction
+   */
+  private selectNeighbours(candidates: Candidate[], count: number): number[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) {
+        break;
+      }
+
+      const diverse = selected.every(
+        (picked) =>
+          this.distance(this.vectors[candidate.node], this.vectors[picked.node]) >
+          candidate.distance,
+      );
+
+      if (diverse) {
+        selected.push(candidate);
+      } else {
+        skipped.push(candidate);
+      }
+    }
+
+    // Fill up with the closest skipped candidates
+    for (const candidate of skipped) {
+      if (selected.length >= count) {
+        break;
+      }
+
+      selected.push(candidate);
+    }
+
+    return selected.map((candidate) => candidate.node);
+  }
+
+  /**
+   * Add a link from a node, pruning its links when it has too many
+   */
+  private link(node: number, neighbour: number, level: number): void {
+    const links = this.links[node][level];
+    links.push(neighbour);
+
+    const maxLinks = level === 0 ? this.maxLinks0 : this.m;
+
+    if (links.length > maxLinks) {
+      const candidates = links
+        .map((other) => ({
+          node: other,
+          distance: this.distance(this.vectors[node], this.vectors[other]),
+        }))
+        .sort((a, b) => a.distance - b.distance);
+      this.links[node][level] = this.selectNeighbours(candidates, maxLinks);
+    }
+  }
+
+  /**
+   * Insert a node whose vector and level are already stored
+   */
+  private insertNode(node: number): void {
+    const vector = this.vectors[node];
+    const level = this.levels[node];
+    this.links[node] = Array.from({ length: level + 1 }, () => []);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+
+      return;
+    }
+
+    let entries: Candidate[] = [
+      { node: this.entryPoint, distance: this.distance(vector, this.vectors[this.entryPoint]) },
+    ];
+
+    for (let current = this.maxLevel; current > level; current--) {
+      entries = this.searchLayer(vector, entries, 1, current);
+    }
+
+    for (let current = Math.min(level, this.maxLevel); current >= 0; current--) {
+      const nearest = this.searchLayer(vector, entries, this.efConstruction, current);
+      const neighbours = this.selectNeighbours(nearest, this.m);
+
+      for (const neighbour of neighbours) {
+        this.links[node][current].push(neighbour);
+        this.link(neighbour, node, current);
+      }
+
+      entries = nearest;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Add a vector, replacing the vector stored under the same id
+   */
+  add(id: string, vector: number[] | Float32Array): void {
+    this.remove(id);
+
+    const node = this.ids.length;
+    this.ids.push(id);
+    this.vectors.push(this.normalize(vector));
+    this.levels.push(this.randomLevel());
+    this.deleted.push(false);
+    this.nodesById.set(id, node);
+    this.insertNode(node);
+  }
+
+  /**
+   * Remove a vector; the node stays in the graph for routing until compaction
+   */
+  remove(id: string): boolean {
+    const node = this.nodesById.get(id);
+
+    if (node === undefined) {
+      return false;
+    }
+
+    this.nodesById.delete(id);
+    this.deleted[node] = true;
+    this.tombstones++;
+
+    if (this.tombstones > this.ids.length * COMPACT_RATIO) {
+      this.compact();
+    }
+
+    return true;
+  }
+
+  /**
+   * Rebuild the graph from the live vectors, dropping tombstoned nodes
+   */
+  compact(): void {
+    const live = this.ids
+      .map((id, node) => ({ id, vector: this.vectors[node] }))
+      .filter((_entry, node) => !this.deleted[node]);
+
+    this.ids = [];
+    this.vectors = [];
+    this.levels = [];
+    this.links = [];
+    this.deleted = [];
+    this.nodesById.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.tombstones = 0;
+    this.random = createRandom(this.seed);
+
+    for (const { id, vector } of live) {
+      this.add(id, vector);
+    }
+  }
+
+  /**
+   * Return the live vectors most similar to the query
+   */
+  search(query: number[] | Float32Array, k: number, ef: number = this.efSearch): HnswMatch[] {
+    if (this.entryPoint === -1 || this.size === 0) {
+      return [];
+    }
+
+    const vector = this.normalize(query);
+    let entries: Candidate[] = [
+      { node: this.entryPoint, distance: this.distance(vector, this.vectors[this.entryPoint]) },
+    ];
+
+    for (let level = this.maxLevel; level > 0; level--) {
+      entries = this.searchLayer(vector, entries, 1, level);
+    }
+
+    // Widen the search by the tombstones that may crowd out live nodes
+    const width = Math.max(ef, k) + Math.min(this.tombstones, Math.max(ef, k));
+
+    return this.searchLayer(vector, entries, width, 0)
+      .filter((candidate) => !this.deleted[candidate.node])
+      .slice(0, k)
+      .map((candidate) => ({ id: this.ids[candidate.node], score: 1 - candidate.distance }));
+  }
+
+  /**
+   * Entries of the live vectors, e.g. to move them to another index
+   */
+  *entries(): Generator<[string, Float32Array]> {
+    for (const [id, node] of this.nodesById) {
+      yield [id, this.vectors[node]];
+    }
+  }
+
+  /**
+   * Serialize the index as it is, tombstones included, so snapshots never pay for
+   * a compaction
+   */
+  toBuffer(): Buffer {
+    const header: HnswSnapshotHeader = {
+      version: SNAPSHOT_VERSION,
+      dimension: this.dimension,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      seed: this.seed,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      ids: this.ids,
+      levels: this.levels,
+      links: this.links,
+      deleted: this.deleted.flatMap((deleted, node) => (deleted ? [node] : [])),
+    };
+    const json = Buffer.from(JSON.stringify(header));
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(json.length);
+
+    const vectors = Buffer.alloc(this.ids.length * this.dimension * 4);
+    this.vectors.forEach((vector, node) => {
+      Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).copy(
+        vectors,
+        node * this.dimension * 4,
+      );
+    });
+
+    return Buffer.concat([length, json, vectors]);
+  }
+
+  /**
+   * Restore an index serialized with toBuffer
+   */
+  static fromBuffer(buffer: Buffer): HnswIndex {
+    const length = buffer.readUInt32LE(0);
+    const header: HnswSnapshotHeader = JSON.parse(buffer.subarray(4, 4 + length).toString());
+
+    if (!READABLE_SNAPSHOT_VERSIONS.includes(header.version)) {
+      throw new Error(`Unsupported HNSW snapshot version: ${header.version}`);
+    }
+
+    const index = new HnswIndex(header);
+    const offset = 4 + length;
+    const expected = offset + header.ids.length * header.dimension * 4;
+
+    if (buffer.length !== expected) {
+      throw new Error('Truncated HNSW snapshot');
+    }
+
+    // Copy into an aligned buffer; Float32Array views need 4-byte aligned offsets
+    const vectors = new Float32Array(header.ids.length * header.dimension);
+    Buffer.from(vectors.buffer).set(buffer.subarray(offset));
+
+    index.ids = header.ids;
+    index.levels = header.levels;
+    index.links = header.links;
+    index.entryPoint = header.entryPoint;
+    index.maxLevel = header.maxLevel;
+    index.vectors = header.ids.map((_id, node) =>
+      vectors.subarray(node * header.dimension, (node + 1) * header.dimension),
+    );
+    index.deleted = header.ids.map(() => false);
+    (header.deleted ?? []).forEach((node) => (index.deleted[node] = true));
+    index.tombstones = header.deleted?.length ?? 0;
+    header.ids.forEach((id, node) => {
+      if (!index.deleted[node]) {
+        index.nodesById.set(id, node);
+      }
+    });
+
+    // Keep level generation going where the snapshotted index left it
+    for (let i = 0; i < header.ids.length; i++) {
+      index.random();
+    }
+
+    return index;
+  }
+}
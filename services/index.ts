@@ -1,4 +1,25 @@
+export * from './archive';
+export * from './chunker';
+export * from './contentExtractor';
+export * from './embeddings';
 export * from './fileParser';
+export * from './hnsw';
+export * from './knowledgeBundle';
+export * from './knowledgeChunks';
+export * from './knowledgeContext';
+export * from './knowledgeEval';
+export * from './knowledgeIngestion';
+export * from './knowledgeJobs';
+export * from './knowledgeRefresh';
+export * from './knowledgeReindex';
+export * from './knowledgeSearch';
+export * from './knowledgeSources';
+export * from './knowledgeSync';
+export * from './language';
+export * from './leaderLock';
 export * from './ragBuilder';
+export * from './redaction';
+export * from './reranker';
 export * from './tokenizer';
+export * from './vectorIndex';
 export * from './webScraper';
@@ -0,0 +1,418 @@
+/**
+ * Knowledge Bundles
+ * Export and import of the knowledge of a uid as JSON Lines, to copy agents
+ * between deployments or keep backups without paying for embeddings again
+ *
+ * Features:
+ * - Streamed export of source records and chunks, embeddings optional
+ * - Import validated against the embedding model and dimension of the target
+ * - Uid remapping, with chunks relinked to their newly created source records
+ * - Duplicate handling by content hash: existing copies are skipped or replaced
+ * - Imported data is staged under a temporary uid and switched over at the end, in a
+ *   transaction where MongoDB supports one, so a failed import leaves the target
+ *   untouched and readers do not see replaced and imported copies side by side
+ *
+ * A bundle is a header line, followed by one line per source and one per chunk.
+ */
+import { randomUUID } from 'crypto';
+import { WithId } from 'mongodb';
+import * as readline from 'readline';
+import { Readable } from 'stream';
+
+import { KnowledgeSource } from '../models';
+import { KnowledgeSourceStore, hashContent } from './knowledgeSources';
+import { ImportSummary, ImportedDocument, RAGBuilder } from './ragBuilder';
+
+export const KNOWLEDGE_BUNDLE_VERSION = 1;
+
+// Chunks stored per insert while importing
+const IMPORT_BATCH_SIZE = 100;
+
+export type BundleDuplicateMode = 'skip' | 'replace';
+
+export const BUNDLE_DUPLICATE_MODES: BundleDuplicateMode[] = ['skip', 'replace'];
+
+export interface KnowledgeBundleHeader {
+  type: 'header';
+  version: number;
+  uid: string; // Uid the bundle was exported from
+  exported_at: string;
+  embedding_model: string | null; // Null when the uid had no chunks
+  embedding_dimension: number | null;
+  includes_embeddings: boolean;
+  sources: number;
+  chunks: number;
+}
+
+export type BundleSource = Omit<KnowledgeSource, '_id' | 'uid' | 'ingestedAt' | 'updatedAt'>;
+
+export interface BundleSourceLine {
+  type: 'source';
+  id: string; // Source id in the exporting deployment, referenced by chunk metadata
+  source: BundleSource;
+}
+
+export interface BundleChunkLine {
+  type: 'chunk';
+  chunk: ImportedDocument;
+}
+
+export type BundleLine = KnowledgeBundleHeader | BundleSourceLine | BundleChunkLine;
+
+// Thrown for malformed bundle lines, so callers can tell a bad bundle from a failed import
+export class BundleLineError extends Error {}
+
+interface ExportBundleOptions {
+  includeEmbeddings?: boolean;
+}
+
+interface ImportBundleOptions {
+  uid?: string; // Target uid (default: the uid the bundle was exported from)
+  duplicates?: BundleDuplicateMode;
+  sources: KnowledgeSourceStore;
+  createBuilder: (uid: string) => RAGBuilder;
+  stagingId?: string;
+}
+
+export interface ImportBundleResult {
+  uid: string;
+  sourcesImported: number;
+  sourcesSkipped: number;
+  sourcesReplaced: number;
+  chunksImported: number;
+  chunksSkipped: number;
+  chunksReembedded: number;
+  chunksFailed: number;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Keep the stored fields of an exported source record
+ */
+function toBundleSource(source: KnowledgeSource | BundleSource): BundleSource {
+  return {
+    type: source.type,
+    name: source.name,
+    ...(source.origin && { origin: source.origin }),
+    ...(source.archive && { archive: source.archive, folder: source.folder ?? '' }),
+    format: source.format,
+    size: source.size,
+    contentHash: source.contentHash,
+    chunkCount: source.chunkCount,
+    ...(source.chunking && { chunking: source.chunking }),
+    ...(source.redaction && { redaction: source.redaction }),
+    ...(source.language && { language: source.language }),
+    ...(source.crawl && { crawl: source.crawl }),
+  };
+}
+
+/**
+ * Keep the stored fields of an exported chunk
+ */
+function toImportedDocument(chunk: ImportedDocument): ImportedDocument {
+  return {
+    uuid: chunk.uuid,
+    content: chunk.content,
+    created_at: new Date(chunk.created_at),
+    metadata: chunk.metadata,
+    ...(Array.isArray(chunk.embedding) && { embedding: chunk.embedding }),
+  };
+}
+
+/**
+ * Parse one line of a bundle
+ */
+function parseBundleLine(text: string, lineNumber: number): BundleLine {
+  let line: unknown;
+  try {
+    line = JSON.parse(text);
+  } catch {
+    throw new BundleLineError(`Bundle line ${lineNumber} is not valid JSON`);
+  }
+
+  if (isObject(line)) {
+    if (line.type === 'header' && typeof line.uid === 'string') {
+      return line as unknown as KnowledgeBundleHeader;
+    }
+
+    if (line.type === 'source' && typeof line.id === 'string' && isObject(line.source)) {
+      return line as unknown as BundleSourceLine;
+    }
+
+    if (
+      line.type === 'chunk' &&
+      isObject(line.chunk) &&
+      typeof line.chunk.content === 'string' &&
+      isObject(line.chunk.metadata)
+    ) {
+      return line as unknown as BundleChunkLine;
+    }
+  }
+
+  throw new BundleLineError(`Bundle line ${lineNumber} is not a header, source or chunk record`);
+}
+
+/**
+ * Read the records of a bundle from a stream, one per non-empty line
+ */
+export async function* readBundleLines(input: Readable): AsyncGenerator<BundleLine> {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  for await (const text of lines) {
+    lineNumber++;
+
+    if (text.trim().length > 0) {
+      yield parseBundleLine(text, lineNumber);
+    }
+  }
+}
+
+/**
+ * Check that a bundle can be imported into a target with the given embedding provider
+ * Bundles with embeddings from another model or dimension are rejected unless the
+ * chunks are to be embedded again. Returns an error message, or null when valid.
+ */
+export function validateBundleHeader(
+  header: KnowledgeBundleHeader,
+  target: Pick<RAGBuilder, 'embeddingModel' | 'embeddingDimension'>,
+  reembed: boolean = false,
+): string | null {
+  if (!Number.isInteger(header.version) || header.version > KNOWLEDGE_BUNDLE_VERSION) {
+    return `Unsupported bundle version: ${header.version}`;
+  }
+
+  if (!header.includes_embeddings || reembed || header.embedding_model === null) {
+    return null;
+  }
+
+  if (
+    header.embedding_model !== target.embeddingModel ||
+    header.embedding_dimension !== target.embeddingDimension
+  ) {
+    return (
+      `Bundle embeddings use ${header.embedding_model} (${header.embedding_dimension} dimensions) ` +
+      `but the target uses ${target.embeddingModel} (${target.embeddingDimension} dimensions); ` +
+      'import with reembed to embed the chunks again'
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Export the sources and chunks of a uid as bundle lines (newline terminated)
+ * Chunks are streamed from the database, so large uids are never held in memory
+ */
+export async function* exportKnowledgeBundle(
+  sources: KnowledgeSourceStore,
+  uid: string,
+  { includeEmbeddings = false }: ExportBundleOptions = {},
+): AsyncGenerator<string> {
+  const [records, chunkCount] = await Promise.all([
+    sources.listSources(uid),
+    sources.countChunks(uid),
+  ]);
+  const chunks = await sources.streamChunks(uid, { includeEmbeddings });
+
+  try {
+    // The first chunk names the embedding model of the bundle
+    const first = await chunks.next();
+
+    const header: KnowledgeBundleHeader = {
+      type: 'header',
+      version: KNOWLEDGE_BUNDLE_VERSION,
+      uid,
+      exported_at: new Date().toISOString(),
+      embedding_model: first?.metadata.embedding_model ?? null,
+      embedding_dimension: first?.metadata.embedding_dimension ?? null,
+      includes_embeddings: includeEmbeddings,
+      sources: records.length,
+      chunks: chunkCount,
+    };
+    yield `${JSON.stringify(header)}\n`;
+
+    for (const record of records) {
+      const line: BundleSourceLine = {
+        type: 'source',
+        id: record._id.toString(),
+        source: toBundleSource(record),
+      };
+      yield `${JSON.stringify(line)}\n`;
+    }
+
+    if (!first) {
+      return;
+    }
+
+    yield `${JSON.stringify({ type: 'chunk', chunk: first })}\n`;
+
+    for await (const chunk of chunks) {
+      yield `${JSON.stringify({ type: 'chunk', chunk })}\n`;
+    }
+  } finally {
+    await chunks.close();
+  }
+}
+
+/**
+ * Import the records of a bundle that follow its header
+ *
+ * Sources already stored for the target uid (same content hash), and chunks
+ * without a source whose content is already stored, are duplicates: they are
+ * skipped, or replaced once the imported data has been switched in.
+ */
+export async function importKnowledgeBundle(
+  header: KnowledgeBundleHeader,
+  lines: AsyncIterable<BundleLine>,
+  {
+    uid = header.uid,
+    duplicates = 'skip',
+    sources,
+    createBuilder,
+    stagingId = randomUUID(),
+  }: ImportBundleOptions,
+): Promise<ImportBundleResult> {
+  const stagingUid = `${uid}:import:${stagingId}`;
+  const stagingBuilder = createBuilder(stagingUid);
+
+  const existing = await sources.listSources(uid);
+  const existingByHash = new Map(existing.map((source) => [source.contentHash, source]));
+  const unsourced = new Map(
+    (await sources.listUnsourcedChunks(uid)).map((chunk) => [
+      hashContent(chunk.content),
+      chunk.uuid,
+    ]),
+  );
+
+  // Bundle source id to staged source id, or null when the source was skipped
+  const sourceIds = new Map<string, string | null>();
+  const stagedSources: WithId<KnowledgeSource>[] = [];
+  const replacedSources: WithId<KnowledgeSource>[] = [];
+  const replacedChunks: string[] = [];
+
+  const result: ImportBundleResult = {
+    uid,
+    sourcesImported: 0,
+    sourcesSkipped: 0,
+    sourcesReplaced: 0,
+    chunksImported: 0,
+    chunksSkipped: 0,
+    chunksReembedded: 0,
+    chunksFailed: 0,
+  };
+
+  let batch: ImportedDocument[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) {
+      return;
+    }
+
+    const summary: ImportSummary = await stagingBuilder.importDocuments(batch);
+    result.chunksImported += summary.inserted;
+    result.chunksReembedded += summary.reembedded;
+    result.chunksFailed += summary.failed;
+    batch = [];
+  };
+
+  try {
+    for await (const line of lines) {
+      if (line.type === 'header') {
+        throw new BundleLineError('A bundle can only have one header line');
+      }
+
+      if (line.type === 'source') {
+        const duplicate = existingByHash.get(line.source.contentHash);
+
+        if (duplicate && duplicates === 'skip') {
+          sourceIds.set(line.id, null);
+          result.sourcesSkipped++;
+          continue;
+        }
+
+        if (duplicate) {
+          replacedSources.push(duplicate);
+          existingByHash.delete(duplicate.contentHash);
+          result.sourcesReplaced++;
+        }
+
+        const record = await sources.createSource({
+          ...toBundleSource(line.source),
+          uid: stagingUid,
+        });
+        sourceIds.set(line.id, record._id.toString());
+        stagedSources.push(record);
+        result.sourcesImported++;
+        continue;
+      }
+
+      const chunk = toImportedDocument(line.chunk);
+      const bundleSourceId = chunk.metadata.source_id;
+
+      if (bundleSourceId !== undefined) {
+        const sourceId = sourceIds.get(bundleSourceId);
+
+        // Chunks of skipped sources, or of sources missing from the bundle
+        if (!sourceId) {
+          result.chunksSkipped++;
+          continue;
+        }
+
+        chunk.metadata = { ...chunk.metadata, source_id: sourceId };
+      } else {
+        const contentHash = hashContent(chunk.content);
+        const duplicate = unsourced.get(contentHash);
+
+        if (duplicate && duplicates === 'skip') {
+          result.chunksSkipped++;
+          continue;
+        }
+
+        if (duplicate) {
+          replacedChunks.push(duplicate);
+          unsourced.delete(contentHash);
+        }
+      }
+
+      batch.push(chunk);
+
+      if (batch.length >= IMPORT_BATCH_SIZE) {
+        await flush();
+      }
+    }
+
+    await flush();
+
+    // The copied counts are off when chunks were skipped or failed to import
+    for (const source of stagedSources) {
+      const chunks = await sources.listSourceChunkUuids(stagingUid, source._id.toString());
+
+      if (chunks.length !== source.chunkCount) {
+        await sources.updateSource(source._id, { chunkCount: chunks.length });
+      }
+    }
+  } catch (error) {
+    await stagingBuilder.cleanupByUid(stagingUid);
+    await sources.deleteByUid(stagingUid);
+    throw error;
+  }
+
+  // Switch over: publish the imported chunks and delete the ones they replace in one
+  // step, then move the source records along
+  for (const source of replacedSources) {
+    replacedChunks.push(...(await sources.listSourceChunkUuids(uid, source._id.toString())));
+  }
+
+  await stagingBuilder.replaceWithStaged(stagingUid, uid, replacedChunks);
+  await sources.reassignUid(stagingUid, uid);
+
+  for (const source of replacedSources) {
+    await sources.deleteSource(uid, source._id.toString());
+  }
+
+  return result;
+}
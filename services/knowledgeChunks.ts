@@ -0,0 +1,221 @@
+/**
+ * Knowledge Chunk Editing
+ * Lets trainers correct, add and remove single knowledge chunks without ingesting
+ * the whole source again
+ *
+ * Features:
+ * - Edited content is redacted with the policy of the uid, embedded again and its
+ *   language detected again
+ * - Chunks added by hand are stored without a source, in the detected language
+ * - Every edit is recorded with its author and time in an audit trail that keeps
+ *   the content before each change, so the ingested text is never lost
+ *
+ * Ingesting a source again (sync, duplicate replacement, scheduled refresh) replaces its
+ * chunks, edits included.
+ */
+import { Collection, Db, WithId } from 'mongodb';
+
+import { connectToDatabase, getClient } from '../config';
+import { KnowledgeChunkEdit } from '../models';
+import { createScopedLogger } from '../utils';
+import { KnowledgeSourceStore, SourceChunk } from './knowledgeSources';
+import { detectLanguage } from './language';
+import { RAGBuilder, RAGDocument } from './ragBuilder';
+import { RedactionCounts, RedactionPolicy, redactText } from './redaction';
+
+const logger = createScopedLogger('services/knowledgeChunks');
+
+interface KnowledgeChunkEditStoreOptions {
+  databaseName?: string;
+  collectionName?: string;
+}
+
+export type NewKnowledgeChunkEdit = Omit<KnowledgeChunkEdit, '_id' | 'createdAt'>;
+
+export interface ChunkEditContext {
+  builder: RAGBuilder; // Builder of the uid, with the embedding provider of its knowledge
+  sources: KnowledgeSourceStore;
+  edits: KnowledgeChunkEditStore;
+  redaction?: RedactionPolicy; // Applied to new content; nothing is redacted when unset
+}
+
+export interface ChunkEditResult {
+  chunk: SourceChunk;
+  redactions: RedactionCounts;
+}
+
+export class KnowledgeChunkEditStore {
+  private databaseName: string;
+  private collectionName: string;
+
+  constructor(options: KnowledgeChunkEditStoreOptions = {}) {
+    this.databaseName = options.databaseName ?? 'nfa';
+    this.collectionName = options.collectionName ?? 'knowledge_chunk_edits';
+  }
+
+  /**
+   * Get or create the edits collection
+   */
+  private async getCollection(): Promise<Collection<KnowledgeChunkEdit>> {
+    // Ensure database is connected
+    await connectToDatabase();
+    const db: Db = getClient().db(this.databaseName);
+    const collection = db.collection<KnowledgeChunkEdit>(this.collectionName);
+
+    // Create indexes
+    try {
+      const indexes = await collection.listIndexes().toArray();
+      const indexNames = indexes.map((idx) => idx.name);
+
+      if (!indexNames.includes('uid_1_uuid_1_createdAt_1')) {
+        await collection.createIndex({ uid: 1, uuid: 1, createdAt: 1 });
+      }
+    } catch (error) {
+      logger.warn(`Could not create indexes: ${error}`);
+    }
+
+    return collection;
+  }
+
+  /**
+   * Record an edit
+   */
+  async recordEdit(edit: NewKnowledgeChunkEdit): Promise<WithId<KnowledgeChunkEdit>> {
+    const collection = await this.getCollection();
+    const record: KnowledgeChunkEdit = { ...edit, createdAt: new Date() };
+    const result = await collection.insertOne(record);
+
+    return { ...record, _id: result.insertedId };
+  }
+
+  /**
+   * List the edits of a chunk, oldest first
+   */
+  async listEdits(uid: string, uuid: string): Promise<WithId<KnowledgeChunkEdit>[]> {
+    const collection = await this.getCollection();
+
+    return collection.find({ uid, uuid }).sort({ createdAt: 1 }).toArray();
+  }
+}
+
+/**
+ * Create a KnowledgeChunkEditStore configured from environment variables
+ */
+export function createKnowledgeChunkEditStore(): KnowledgeChunkEditStore {
+  return new KnowledgeChunkEditStore({
+    databaseName: process.env.DATABASE_NAME || 'nfa',
+  });
+}
+
+/**
+ * Redact content with the policy of the context, if any
+ */
+function redactContent(content: string, redaction?: RedactionPolicy) {
+  return redaction ? redactText(content, redaction) : { text: content, counts: {} };
+}
+
+/**
+ * Leave the embedding out of a stored chunk
+ */
+function toSourceChunk({ embedding: _embedding, ...chunk }: RAGDocument): SourceChunk {
+  return chunk;
+}
+
+/**
+ * Replace the content of a chunk and embed it again
+ * Returns null when the uid has no chunk with the uuid
+ */
+export async function editChunk(
+  { builder, sources, edits, redaction }: ChunkEditContext,
+  { uid, uuid, content, userId }: { uid: string; uuid: string; content: string; userId: string },
+): Promise<ChunkEditResult | null> {
+  const previous = await sources.getChunk(uid, uuid);
+
+  if (!previous) {
+    return null;
+  }
+
+  const redacted = redactContent(content, redaction);
+  // The corrected text may be in another language than the ingested one
+  const updated = await builder.updateChunk(uid, uuid, redacted.text, {
+    language: detectLanguage(redacted.text),
+    edited_by: userId,
+    edited_at: new Date(),
+  });
+
+  // Deleted while the new content was being embedded
+  if (!updated) {
+    return null;
+  }
+
+  await edits.recordEdit({
+    uid,
+    uuid,
+    action: 'update',
+    userId,
+    previousContent: previous.content,
+    content: updated.content,
+    ...(previous.metadata.source_id && { sourceId: previous.metadata.source_id }),
+  });
+
+  return { chunk: toSourceChunk(updated), redactions: redacted.counts };
+}
+
+/**
+ * Embed and store a chunk written by hand; it is not linked to any source
+ */
+export async function addChunk(
+  { builder, edits, redaction }: ChunkEditContext,
+  { uid, content, userId }: { uid: string; content: string; userId: string },
+): Promise<ChunkEditResult> {
+  const redacted = redactContent(content, redaction);
+  const chunk = await builder.addChunk({
+    content: redacted.text,
+    metadata: {
+      language: detectLanguage(redacted.text),
+      created_by: userId,
+    },
+  });
+
+  await edits.recordEdit({
+    uid,
+    uuid: chunk.uuid,
+    action: 'create',
+    userId,
+    content: chunk.content,
+  });
+
+  return { chunk: toSourceChunk(chunk), redactions: redacted.counts };
+}
+
+/**
+ * Delete a chunk, keeping its content in the audit trail
+ * Returns false when the uid has no chunk with the uuid
+ */
+export async function deleteChunk(
+  { builder, sources, edits }: ChunkEditContext,
+  { uid, uuid, userId }: { uid: string; uuid: string; userId: string },
+): Promise<boolean> {
+  const chunk = await sources.getChunk(uid, uuid);
+
+  if (!chunk || (await builder.deleteByUuids(uid, [uuid])) === 0) {
+    return false;
+  }
+
+  const sourceId = chunk.metadata.source_id;
+
+  if (sourceId) {
+    await sources.adjustChunkCount(uid, sourceId, -1);
+  }
+
+  await edits.recordEdit({
+    uid,
+    uuid,
+    action: 'delete',
+    userId,
+    previousContent: chunk.content,
+    ...(sourceId && { sourceId }),
+  });
+
+  return true;
+}
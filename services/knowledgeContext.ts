@@ -0,0 +1,187 @@
+/**
+ * Knowledge Context
+ * Builds retrieval-augmented system prompts for the chat routes
+ *
+ * Features:
+ * - Query extraction from chat messages
+ * - Knowledge retrieval through KnowledgeSearch
+ * - Token-budgeted context assembly
+ * - Citations pointing back to the uuid and location (source, page, slide) of each chunk
+ */
+import { KnowledgeSearch, KnowledgeSearchResult } from './knowledgeSearch';
+import { estimateTokens } from './tokenizer';
+
+export interface ChatKnowledgeOptions {
+  uid: string;
+  topK?: number;
+  rerank?: boolean; // Rerank retrieved chunks before they are added to the prompt
+}
+
+export interface KnowledgeContextOptions extends ChatKnowledgeOptions {
+  query: string;
+  minScore?: number;
+  maxTokens?: number;
+}
+
+export interface KnowledgeCitation {
+  id: number;
+  uuid: string;
+  score: number;
+  location?: string; // e.g. "Deck.pptx, slide 7"
+}
+
+export interface KnowledgeContext {
+  prompt: string;
+  citations: KnowledgeCitation[];
+}
+
+interface ChatMessage {
+  role: string;
+  content: unknown;
+}
+
+const DEFAULT_CONTEXT_MAX_TOKENS = 2000;
+
+const CONTEXT_INSTRUCTIONS =
+  'Answer using the reference material below when it is relevant. ' +
+  'Cite the material you rely on with its bracketed number, e.g. [1]. ' +
+  'If the material does not cover the question, say so instead of guessing.';
+
+/**
+ * Get the plain text of a chat message content (string or content part array)
+ */
+function getMessageText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  if (Array.isArray(content)) {
+    return content
+      .map((part) =>
+        part && part.type === 'text' && typeof part.text === 'string' ? part.text : '',
+      )
+      .filter((text) => text.length > 0)
+      .join('\n');
+  }
+
+  return '';
+}
+
+/**
+ * Get the retrieval query from a chat conversation (the latest user message)
+ */
+export function extractQueryFromMessages(messages: unknown): string {
+  if (!Array.isArray(messages)) {
+    return '';
+  }
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i] as ChatMessage;
+
+    if (message && message.role === 'user') {
+      const text = getMessageText(message.content).trim();
+
+      if (text.length > 0) {
+        return text;
+      }
+    }
+  }
+
+  return '';
+}
+
+/**
+ * Validate the `knowledge` option of a chat request
+ * Returns an error message, or null when the option is absent or valid
+ */
+export function validateChatKnowledgeOptions(knowledge: unknown): string | null {
+  if (knowledge === undefined || knowledge === null) {
+    return null;
+  }
+
+  const { uid, topK, rerank } = knowledge as ChatKnowledgeOptions;
+
+  if (!uid || typeof uid !== 'string') {
+    return 'knowledge.uid is required';
+  }
+
+  if (topK !== undefined && (!Number.isInteger(topK) || topK < 1 || topK > 20)) {
+    return 'knowledge.topK must be an integer between 1 and 20';
+  }
+
+  if (rerank !== undefined && typeof rerank !== 'boolean') {
+    return 'knowledge.rerank must be a boolean';
+  }
+
+  return null;
+}
+
+/**
+ * Describe where a chunk comes from, e.g. "Pricing.xlsx, sheet Plans"
+ */
+function describeLocation({ metadata }: KnowledgeSearchResult): string | undefined {
+  const parts = [
+    metadata.source_name,
+    metadata.page !== undefined && `page ${metadata.page}`,
+    metadata.slide !== undefined && `slide ${metadata.slide}`,
+    metadata.sheet && `sheet ${metadata.sheet}`,
+  ].filter((part): part is string => Boolean(part));
+
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+/**
+ * Retrieve relevant chunks and assemble them into a system prompt section
+ * Chunks are added in score order while they fit within the token budget
+ */
+export async function buildKnowledgeContext(
+  search: KnowledgeSearch,
+  {
+    uid,
+    query,
+    topK = 5,
+    minScore = 0,
+    maxTokens = DEFAULT_CONTEXT_MAX_TOKENS,
+    rerank = false,
+  }: KnowledgeContextOptions,
+): Promise<KnowledgeContext> {
+  if (query.trim().length === 0) {
+    return { prompt: '', citations: [] };
+  }
+
+  const results = await search.search({ uid, query, topK, minScore, rerank });
+
+  const blocks: string[] = [];
+  const citations: KnowledgeCitation[] = [];
+  let usedTokens = estimateTokens(CONTEXT_INSTRUCTIONS);
+
+  for (const result of results) {
+    const location = describeLocation(result);
+    const label = `[${citations.length + 1}]${location ? ` (${location})` : ''}`;
+    const block = `${label} ${result.content.trim()}`;
+    const blockTokens = estimateTokens(block);
+
+    // Skip chunks that would overflow the budget; a smaller one may still fit
+    if (usedTokens + blockTokens > maxTokens) {
+      continue;
+    }
+
+    blocks.push(block);
+    citations.push({
+      id: citations.length + 1,
+      uuid: result.uuid,
+      score: result.score,
+      ...(location && { location }),
+    });
+    usedTokens += blockTokens;
+  }
+
+  if (blocks.length === 0) {
+    return { prompt: '', citations: [] };
+  }
+
+  return {
+    prompt: `${CONTEXT_INSTRUCTIONS}\n\nReference material:\n\n${blocks.join('\n\n')}`,
+    citations,
+  };
+}
@@ -0,0 +1,412 @@
+/**
+ * Knowledge Evaluation
+ * Measures retrieval quality against golden question sets, so changes to chunking,
+ * scraping or embeddings can be compared before they reach users
+ *
+ * Features:
+ * - Golden question sets per uid stored in MongoDB, with expected chunks, expected
+ *   sources or answer keywords per question
+ * - Questions run through KnowledgeSearch, the same path chat retrieval uses
+ * - recall@k, mean reciprocal rank and nDCG@k per question and per run
+ * - Run history per set and configuration, and comparison between two runs
+ */
+import { Collection, Db, WithId } from 'mongodb';
+
+import { connectToDatabase, getClient } from '../config';
+import {
+  KnowledgeEvalMetrics,
+  KnowledgeEvalQuestion,
+  KnowledgeEvalQuestionResult,
+  KnowledgeEvalRun,
+  KnowledgeEvalSet,
+} from '../models';
+import { createScopedLogger } from '../utils';
+import {
+  KnowledgeSearch,
+  KnowledgeSearchResult,
+  RETRIEVAL_MODES,
+  RetrievalMode,
+} from './knowledgeSearch';
+
+const logger = createScopedLogger('services/knowledgeEval');
+
+export type NewKnowledgeEvalRun = Omit<KnowledgeEvalRun, '_id' | 'createdAt'>;
+
+interface EvalTarget {
+  matches: (result: KnowledgeSearchResult) => boolean;
+}
+
+interface RunKnowledgeEvalOptions {
+  search: KnowledgeSearch;
+  uid: string; // Uid searched; may differ from the uid of the set for ingested corpora
+  set: Pick<KnowledgeEvalSet, 'uid' | 'name' | 'questions'>;
+  label: string;
+  k?: number;
+  mode?: RetrievalMode;
+  rerank?: boolean;
+  chunking?: KnowledgeEvalRun['chunking']; // Recorded with the run
+  embedding?: KnowledgeEvalRun['embedding'];
+}
+
+export interface KnowledgeEvalComparison {
+  baseline: string;
+  candidate: string;
+  delta: KnowledgeEvalMetrics; // Candidate minus baseline
+  questions: { query: string; baseline: number; candidate: number }[]; // nDCG per changed question
+}
+
+/**
+ * Validate a golden question set read from a request or file
+ */
+export function validateEvalQuestions(questions: unknown): KnowledgeEvalQuestion[] {
+  if (!Array.isArray(questions) || questions.length === 0) {
+    throw new Error('questions must be a non-empty array');
+  }
+
+  const isStringList = (value: unknown) =>
+    value === undefined ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'string' && item.length > 0));
+
+  return questions.map((question, index) => {
+    const { query, expectedChunks, expectedSources, keywords } = question ?? {};
+
+    if (typeof query !== 'string' || query.trim().length === 0) {
+      throw new Error(`Question ${index + 1} needs a query`);
+    }
+
+    if (
+      !isStringList(expectedChunks) ||
+      !isStringList(expectedSources) ||
+      !isStringList(keywords)
+    ) {
+      throw new Error(`Question ${index + 1}: expectations must be lists of strings`);
+    }
+
+    if (!expectedChunks?.length && !expectedSources?.length && !keywords?.length) {
+      throw new Error(
+        `Question ${index + 1} needs expectedChunks, expectedSources or keywords to grade against`,
+      );
+    }
+
+    return {
+      query,
+      ...(expectedChunks?.length && { expectedChunks }),
+      ...(expectedSources?.length && { expectedSources }),
+      ...(keywords?.length && { keywords }),
+    };
+  });
+}
+
+/**
+ * The expectations of a question, each found by at most one retrieved chunk
+ * Every expected chunk and source is a target; the keywords together are one target
+ */
+function evalTargets(question: KnowledgeEvalQuestion): EvalTarget[] {
+  const targets: EvalTarget[] = [
+    ...(question.expectedChunks ?? []).map((uuid) => ({
+      matches: (result: KnowledgeSearchResult) => result.uuid === uuid,
+    })),
+    ...(question.expectedSources ?? []).map((name) => ({
+      matches: (result: KnowledgeSearchResult) => result.metadata.source_name === name,
+    })),
+  ];
+
+  if (question.keywords?.length) {
+    const keywords = question.keywords.map((keyword) => keyword.toLowerCase());
+    targets.push({
+      matches: (result) => {
+        const content = result.content.toLowerCase();
+
+        return keywords.every((keyword) => content.includes(keyword));
+      },
+    });
+  }
+
+  return targets;
+}
+
+/**
+ * Grade the results retrieved for a question
+ * A chunk is relevant when it finds a target no better-ranked chunk found, so several
+ * chunks of one expected source count once.
+ */
+export function scoreEvalQuestion(
+  question: KnowledgeEvalQuestion,
+  results: KnowledgeSearchResult[],
+  k: number,
+): KnowledgeEvalQuestionResult {
+  const targets = evalTargets(question);
+  const found = new Set<EvalTarget>();
+  const relevant: number[] = [];
+  const top = results.slice(0, k);
+
+  top.forEach((result, index) => {
+    const target = targets.find((candidate) => !found.has(candidate) && candidate.matches(result));
+
+    if (target) {
+      found.add(target);
+      relevant.push(index + 1);
+    }
+  });
+
+  const dcg = relevant.reduce((sum, rank) => sum + 1 / Math.log2(rank + 1), 0);
+  let idealDcg = 0;
+
+  for (let rank = 1; rank <= Math.min(targets.length, k); rank++) {
+    idealDcg += 1 / Math.log2(rank + 1);
+  }
+
+  return {
+    query: question.query,
+    recall: found.size / targets.length,
+    reciprocalRank: relevant.length > 0 ? 1 / relevant[0] : 0,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+    retrieved: top.map((result) => result.uuid),
+    relevant,
+  };
+}
+
+/**
+ * Average the per-question metrics of a run
+ */
+export function summarizeEval(results: KnowledgeEvalQuestionResult[]): KnowledgeEvalMetrics {
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    recall: mean(results.map((result) => result.recall)),
+    mrr: mean(results.map((result) => result.reciprocalRank)),
+    ndcg: mean(results.map((result) => result.ndcg)),
+  };
+}
+
+/**
+ * Run the questions of a golden set through knowledge search and grade the results
+ */
+export async function runKnowledgeEval({
+  search,
+  uid,
+  set,
+  label,
+  k = 5,
+  mode = 'hybrid',
+  rerank = false,
+  chunking,
+  embedding,
+}: RunKnowledgeEvalOptions): Promise<NewKnowledgeEvalRun> {
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error('k must be a positive integer');
+  }
+
+  if (!RETRIEVAL_MODES.includes(mode)) {
+    throw new Error(`mode must be one of: ${RETRIEVAL_MODES.join(', ')}`);
+  }
+
+  const questions: KnowledgeEvalQuestionResult[] = [];
+
+  // One question at a time, so runs do not compete with live traffic for rate limits
+  for (const question of set.questions) {
+    const results = await search.search({ uid, query: question.query, topK: k, mode, rerank });
+    questions.push(scoreEvalQuestion(question, results, k));
+  }
+
+  const metrics = summarizeEval(questions);
+  logger.log(
+    `Evaluated ${set.name} (${label}): recall@${k} ${metrics.recall.toFixed(3)}, ` +
+      `MRR ${metrics.mrr.toFixed(3)}, nDCG@${k} ${metrics.ndcg.toFixed(3)}`,
+  );
+
+  return {
+    uid: set.uid,
+    set: set.name,
+    label,
+    k,
+    mode,
+    rerank,
+    ...(chunking && { chunking }),
+    ...(embedding && { embedding }),
+    ...metrics,
+    questions,
+  };
+}
+
+/**
+ * Compare two runs of the same golden set
+ */
+export function compareEvalRuns(
+  baseline: Pick<KnowledgeEvalRun, 'label' | 'questions' | keyof KnowledgeEvalMetrics>,
+  candidate: Pick<KnowledgeEvalRun, 'label' | 'questions' | keyof KnowledgeEvalMetrics>,
+): KnowledgeEvalComparison {
+  const baselineNdcg = new Map(baseline.questions.map((result) => [result.query, result.ndcg]));
+
+  return {
+    baseline: baseline.label,
+    candidate: candidate.label,
+    delta: {
+      recall: candidate.recall - baseline.recall,
+      mrr: candidate.mrr - baseline.mrr,
+      ndcg: candidate.ndcg - baseline.ndcg,
+    },
+    questions: candidate.questions
+      .filter(
+        (result) =>
+          baselineNdcg.has(result.query) && baselineNdcg.get(result.query) !== result.ndcg,
+      )
+      .map((result) => ({
+        query: result.query,
+        baseline: baselineNdcg.get(result.query)!,
+        candidate: result.ndcg,
+      })),
+  };
+}
+
+interface KnowledgeEvalStoreOptions {
+  databaseName?: string;
+  setsCollectionName?: string;
+  runsCollectionName?: string;
+}
+
+export class KnowledgeEvalStore {
+  private databaseName: string;
+  private setsCollectionName: string;
+  private runsCollectionName: string;
+
+  constructor(options: KnowledgeEvalStoreOptions = {}) {
+    this.databaseName = options.databaseName ?? 'nfa';
+    this.setsCollectionName = options.setsCollectionName ?? 'knowledge_eval_sets';
+    this.runsCollectionName = options.runsCollectionName ?? 'knowledge_eval_runs';
+  }
+
+  private async getDb(): Promise<Db> {
+    // Ensure database is connected
+    await connectToDatabase();
+
+    return getClient().db(this.databaseName);
+  }
+
+  /**
+   * Get or create the golden sets collection
+   */
+  private async getSets(): Promise<Collection<KnowledgeEvalSet>> {
+    const db = await this.getDb();
+    const collection = db.collection<KnowledgeEvalSet>(this.setsCollectionName);
+
+    // Create indexes
+    try {
+      const indexes = await collection.listIndexes().toArray();
+      const indexNames = indexes.map((idx) => idx.name);
+
+      if (!indexNames.includes('uid_1_name_1')) {
+        await collection.createIndex({ uid: 1, name: 1 }, { unique: true });
+      }
+    } catch (error) {
+      logger.warn(`Could not create indexes: ${error}`);
+    }
+
+    return collection;
+  }
+
+  /**
+   * Get or create the runs collection
+   */
+  private async getRuns(): Promise<Collection<KnowledgeEvalRun>> {
+    const db = await this.getDb();
+    const collection = db.collection<KnowledgeEvalRun>(this.runsCollectionName);
+
+    // Create indexes
+    try {
+      const indexes = await collection.listIndexes().toArray();
+      const indexNames = indexes.map((idx) => idx.name);
+
+      if (!indexNames.includes('uid_1_set_1_label_1_createdAt_-1')) {
+        await collection.createIndex({ uid: 1, set: 1, label: 1, createdAt: -1 });
+      }
+    } catch (error) {
+      logger.warn(`Could not create indexes: ${error}`);
+    }
+
+    return collection;
+  }
+
+  /**
+   * Create or replace the golden set of a uid with the given name
+   */
+  async saveSet(
+    uid: string,
+    name: string,
+    questions: KnowledgeEvalQuestion[],
+  ): Promise<WithId<KnowledgeEvalSet>> {
+    const collection = await this.getSets();
+    const now = new Date();
+
+    const set = await collection.findOneAndUpdate(
+      { uid, name },
+      { $set: { questions, updatedAt: now }, $setOnInsert: { createdAt: now } },
+      { upsert: true, returnDocument: 'after' },
+    );
+
+    return set!;
+  }
+
+  /**
+   * Get a golden set of a uid by name
+   */
+  async getSet(uid: string, name: string): Promise<WithId<KnowledgeEvalSet> | null> {
+    const collection = await this.getSets();
+
+    return collection.findOne({ uid, name });
+  }
+
+  /**
+   * List the golden sets of a uid
+   */
+  async listSets(uid: string): Promise<WithId<KnowledgeEvalSet>[]> {
+    const collection = await this.getSets();
+
+    return collection.find({ uid }).sort({ name: 1 }).toArray();
+  }
+
+  /**
+   * Delete a golden set and its run history
+   */
+  async deleteSet(uid: string, name: string): Promise<boolean> {
+    const [sets, runs] = await Promise.all([this.getSets(), this.getRuns()]);
+    const result = await sets.deleteOne({ uid, name });
+    await runs.deleteMany({ uid, set: name });
+
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Record a run
+   */
+  async saveRun(run: NewKnowledgeEvalRun): Promise<WithId<KnowledgeEvalRun>> {
+    const collection = await this.getRuns();
+    const record: KnowledgeEvalRun = { ...run, createdAt: new Date() };
+    const result = await collection.insertOne(record);
+
+    return { ...record, _id: result.insertedId };
+  }
+
+  /**
+   * Get the most recent run of a set with a label
+   */
+  async getLatestRun(
+    uid: string,
+    set: string,
+    label: string,
+  ): Promise<WithId<KnowledgeEvalRun> | null> {
+    const collection = await this.getRuns();
+
+    return collection.findOne({ uid, set, label }, { sort: { createdAt: -1 } });
+  }
+}
+
+/**
+ * Create a KnowledgeEvalStore configured from environment variables
+ */
+export function createKnowledgeEvalStore(): KnowledgeEvalStore {
+  return new KnowledgeEvalStore({
+    databaseName: process.env.DATABASE_NAME || 'nfa',
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * Knowledge Ingestion
+ * Redacts personal data from extracted text, detects its language, chunks it with
+ * the tokenizers of that language, records its source and stores the embedded chunks
+ */
+import { WithId } from 'mongodb';
+
+import { KnowledgeSource, KnowledgeSourceManager, KnowledgeSourceType } from '../models';
+import { ChunkingConfig, chunkDocument, chunkSegments } from './chunker';
+import { ParsedSegment } from './fileParser';
+import { KnowledgeSourceStore } from './knowledgeSources';
+import { detectLanguage } from './language';
+import { BuildSummary, RAGBuilder, TextChunk } from './ragBuilder';
+import { RedactionCounts, RedactionPolicy, redactDocument } from './redaction';
+import { CrawlOptions } from './webScraper';
+
+export interface IngestTextInput {
+  uid: string;
+  type: KnowledgeSourceType;
+  name: string;
+  origin?: string;
+  managedBy?: KnowledgeSourceManager;
+  archive?: string; // Archive the file was extracted from
+  folder?: string; // Folder path of the file within its archive
+  format: string;
+  size: number;
+  contentHash: string;
+  text: string;
+  segments?: ParsedSegment[]; // Chunked per segment instead of `text` when set
+  chunking: ChunkingConfig;
+  redaction?: RedactionPolicy; // Applied before chunking; nothing is redacted when unset
+  crawl?: Required<CrawlOptions>; // Crawl options a URL was scraped with
+}
+
+export interface PreparedText {
+  chunks: TextChunk[];
+  language: string;
+  redactions: RedactionCounts; // Values redacted per PII type
+}
+
+export interface IngestResult {
+  source: WithId<KnowledgeSource> | null;
+  summary: BuildSummary;
+  redactions: RedactionCounts; // Values redacted per PII type
+}
+
+const EMPTY_SUMMARY: BuildSummary = { total: 0, inserted: 0, failedIndices: [], batches: [] };
+
+/**
+ * Redact extracted text, detect its language and chunk it with the tokenizers of
+ * that language
+ */
+export function prepareText({
+  text,
+  segments,
+  chunking,
+  redaction,
+}: Pick<IngestTextInput, 'text' | 'segments' | 'chunking' | 'redaction'>): PreparedText {
+  // Personal data never reaches the embeddings provider or the stored content
+  const redacted = redaction
+    ? redactDocument(text, segments, redaction)
+    : { text, segments, counts: {} };
+  const language = detectLanguage(redacted.text);
+  const chunks = redacted.segments
+    ? chunkSegments(redacted.segments, chunking, language)
+    : chunkDocument(redacted.text, chunking, language);
+
+  return { chunks, language, redactions: redacted.counts };
+}
+
+/**
+ * Redact, chunk and embed the text of one source, linking every chunk to a source record
+ * No source record is kept when no chunk could be stored. `onSourceCreated` runs
+ * before embedding starts, so callers can clean up after an interrupted build.
+ */
+export async function ingestText(
+  builder: RAGBuilder,
+  sources: KnowledgeSourceStore,
+  { text, segments, chunking, redaction, ...source }: IngestTextInput,
+  onSourceCreated?: (sourceId: string) => Promise<void>,
+): Promise<IngestResult> {
+  const { chunks, language, redactions } = prepareText({ text, segments, chunking, redaction });
+
+  if (chunks.length === 0) {
+    return { source: null, summary: EMPTY_SUMMARY, redactions };
+  }
+
+  const record = await sources.createSource({
+    ...source,
+    chunking,
+    ...(redaction && { redaction }),
+    language,
+    chunkCount: 0,
+  });
+  const sourceId = record._id.toString();
+
+  let summary: BuildSummary;
+  try {
+    await onSourceCreated?.(sourceId);
+    summary = await builder.buildFromChunks(chunks, false, {
+      chunking,
+      source_id: sourceId,
+      source_name: source.name,
+      language,
+    });
+  } catch (error) {
+    await sources.deleteSource(source.uid, sourceId);
+    throw error;
+  }
+
+  if (summary.inserted === 0) {
+    await sources.deleteSource(source.uid, sourceId);
+
+    return { source: null, summary, redactions };
+  }
+
+  const updated = await sources.updateSource(record._id, { chunkCount: summary.inserted });
+
+  return {
+    source: updated ?? { ...record, chunkCount: summary.inserted },
+    summary,
+    redactions,
+  };
+}
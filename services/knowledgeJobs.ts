@@ -0,0 +1,652 @@
+/**
+ * Knowledge Jobs
+ * Runs knowledge ingestion in the background with progress stored in MongoDB
+ *
+ * Features:
+ * - Jobs and per-item states (queued, parsing, embedding, done, failed) in MongoDB
+ * - Uploaded files kept in GridFS until they are processed
+ * - Atomic job claiming with heartbeats, so several replicas can share the queue
+ * - Jobs interrupted by a restart are picked up again once their heartbeat is stale
+ * - Re-index jobs that move the knowledge of one or all uids to another embedding model
+ */
+import { randomUUID } from 'crypto';
+import { Collection, Db, GridFSBucket, ObjectId, WithId } from 'mongodb';
+
+import { connectToDatabase, getClient } from '../config';
+import {
+  KnowledgeJob,
+  KnowledgeJobCounters,
+  KnowledgeJobItem,
+  KnowledgeJobItemState,
+  KnowledgeJobKind,
+  KnowledgeJobStatus,
+} from '../models';
+import { createScopedLogger, sleep } from '../utils';
+import { ChunkingConfig, resolveChunkingConfig } from './chunker';
+import { EmbeddingProvider, createEmbeddingProvider } from './embeddings';
+import { ParsedSegment, fileParser } from './fileParser';
+import { ingestText } from './knowledgeIngestion';
+import { reindexKnowledge } from './knowledgeReindex';
+import { KnowledgeSourceStore, createKnowledgeSourceStore, hashContent } from './knowledgeSources';
+import { syncCharacterKnowledge } from './knowledgeSync';
+import { RAGBuilder, createRAGBuilder } from './ragBuilder';
+import { WebScraper } from './webScraper';
+
+const logger = createScopedLogger('services/knowledgeJobs');
+
+interface KnowledgeJobStoreOptions {
+  databaseName?: string;
+  collectionName?: string;
+  bucketName?: string;
+}
+
+export interface NewKnowledgeJob {
+  kind: KnowledgeJobKind;
+  uid: string;
+  chunking?: ChunkingConfig;
+  embedding?: KnowledgeJob['embedding'];
+  redaction?: KnowledgeJob['redaction'];
+  crawl?: KnowledgeJob['crawl'];
+  // Items are queued unless given a state, e.g. archive entries that failed before queueing
+  items: (Omit<KnowledgeJobItem, 'state'> & { state?: KnowledgeJobItemState })[];
+}
+
+/**
+ * Count the items of a job per state
+ */
+export function countJobItems(items: KnowledgeJobItem[]): KnowledgeJobCounters {
+  const counters: KnowledgeJobCounters = {
+    total: items.length,
+    queued: 0,
+    parsing: 0,
+    embedding: 0,
+    done: 0,
+    failed: 0,
+  };
+
+  for (const item of items) {
+    counters[item.state]++;
+  }
+
+  return counters;
+}
+
+export class KnowledgeJobStore {
+  private databaseName: string;
+  private collectionName: string;
+  private bucketName: string;
+
+  constructor(options: KnowledgeJobStoreOptions = {}) {
+    this.databaseName = options.databaseName ?? 'nfa';
+    this.collectionName = options.collectionName ?? 'knowledge_jobs';
+    this.bucketName = options.bucketName ?? 'knowledge_uploads';
+  }
+
+  private async getDb(): Promise<Db> {
+    // Ensure database is connected
+    await connectToDatabase();
+
+    return getClient().db(this.databaseName);
+  }
+
+  /**
+   * Get or create the jobs collection
+   */
+  private async getCollection(): Promise<Collection<KnowledgeJob>> {
+    const db = await this.getDb();
+    const collection = db.collection<KnowledgeJob>(this.collectionName);
+
+    // Create indexes
+    try {
+      const indexes = await collection.listIndexes().toArray();
+      const indexNames = indexes.map((idx) => idx.name);
+
+      if (!indexNames.includes('status_1_createdAt_1')) {
+        await collection.createIndex({ status: 1, createdAt: 1 });
+      }
+
+      if (!indexNames.includes('uid_1_createdAt_-1')) {
+        await collection.createIndex({ uid: 1, createdAt: -1 });
+      }
+    } catch (error) {
+      logger.warn(`Could not create indexes: ${error}`);
+    }
+
+    return collection;
+  }
+
+  private async getBucket(): Promise<GridFSBucket> {
+    const db = await this.getDb();
+
+    return new GridFSBucket(db, { bucketName: this.bucketName });
+  }
+
+  /**
+   * Store an uploaded file until its job item is processed
+   */
+  async saveUpload(buffer: Buffer, filename: string): Promise<ObjectId> {
+    const bucket = await this.getBucket();
+
+    return new Promise((resolve, reject) => {
+      const stream = bucket.openUploadStream(filename);
+      stream.once('error', reject);
+      stream.once('finish', () => resolve(stream.id));
+      stream.end(buffer);
+    });
+  }
+
+  /**
+   * Read an uploaded file
+   */
+  async readUpload(fileId: ObjectId): Promise<Buffer> {
+    const bucket = await this.getBucket();
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of bucket.openDownloadStream(fileId)) {
+      chunks.push(chunk as Buffer);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Delete an uploaded file, ignoring files that are already gone
+   */
+  async deleteUpload(fileId: ObjectId): Promise<void> {
+    const bucket = await this.getBucket();
+
+    try {
+      await bucket.delete(fileId);
+    } catch (error) {
+      logger.warn(`Could not delete upload ${fileId}: ${error}`);
+    }
+  }
+
+  /**
+   * Create a queued job
+   */
+  async createJob(job: NewKnowledgeJob): Promise<WithId<KnowledgeJob>> {
+    const collection = await this.getCollection();
+    const now = new Date();
+    const items: KnowledgeJobItem[] = job.items.map((item) => ({ state: 'queued', ...item }));
+
+    const record: KnowledgeJob = {
+      ...job,
+      items,
+      status: 'queued',
+      counters: countJobItems(items),
+      documentsCreated: 0,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const result = await collection.insertOne(record);
+
+    return { ...record, _id: result.insertedId };
+  }
+
+  /**
+   * Get a job by id
+   */
+  async getJob(jobId: string): Promise<WithId<KnowledgeJob> | null> {
+    if (!ObjectId.isValid(jobId)) {
+      return null;
+    }
+
+    const collection = await this.getCollection();
+
+    return collection.findOne({ _id: new ObjectId(jobId) });
+  }
+
+  /**
+   * Claim the oldest queued job, or a running job whose worker stopped sending
+   * heartbeats (e.g. because the server restarted)
+   */
+  async claimNextJob(workerId: string, staleAfterMs: number): Promise<WithId<KnowledgeJob> | null> {
+    const collection = await this.getCollection();
+    const now = new Date();
+
+    return collection.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued' },
+          { status: 'running', heartbeatAt: { $lt: new Date(now.getTime() - staleAfterMs) } },
+        ],
+      },
+      {
+        $set: { status: 'running', workerId, heartbeatAt: now, updatedAt: now },
+        $inc: { attempts: 1 },
+      },
+      { sort: { createdAt: 1 }, returnDocument: 'after' },
+    );
+  }
+
+  /**
+   * Refresh the heartbeat of a job owned by a worker
+   */
+  async heartbeat(jobId: ObjectId, workerId: string): Promise<void> {
+    const collection = await this.getCollection();
+    await collection.updateOne({ _id: jobId, workerId }, { $set: { heartbeatAt: new Date() } });
+  }
+
+  /**
+   * Save the progress of a job owned by a worker
+   */
+  async saveProgress(job: WithId<KnowledgeJob>, workerId: string): Promise<void> {
+    const collection = await this.getCollection();
+    const now = new Date();
+
+    await collection.updateOne(
+      { _id: job._id, workerId },
+      {
+        $set: {
+          items: job.items,
+          counters: countJobItems(job.items),
+          documentsCreated: job.documentsCreated,
+          ...(job.sourcesRemoved && { sourcesRemoved: job.sourcesRemoved }),
+          ...(job.startedAt && { startedAt: job.startedAt }),
+          heartbeatAt: now,
+          updatedAt: now,
+        },
+      },
+    );
+  }
+
+  /**
+   * Mark a job owned by a worker as finished
+   * A worker whose job was reclaimed after its heartbeat went stale no longer owns
+   * it, so it cannot overwrite the result of the new owner
+   */
+  async finishJob(
+    job: WithId<KnowledgeJob>,
+    workerId: string,
+    status: Extract<KnowledgeJobStatus, 'done' | 'failed'>,
+    error?: string,
+  ): Promise<void> {
+    const collection = await this.getCollection();
+    const now = new Date();
+
+    await collection.updateOne(
+      { _id: job._id, workerId },
+      {
+        $set: {
+          status,
+          items: job.items,
+          counters: countJobItems(job.items),
+          documentsCreated: job.documentsCreated,
+          ...(job.sourcesRemoved && { sourcesRemoved: job.sourcesRemoved }),
+          ...(error && { error }),
+          finishedAt: now,
+          updatedAt: now,
+        },
+        $unset: { workerId: '', heartbeatAt: '' },
+      },
+    );
+  }
+}
+
+interface KnowledgeJobRunnerOptions {
+  store: KnowledgeJobStore;
+  sources: KnowledgeSourceStore;
+  createBuilder: (uid: string, embeddingProvider?: EmbeddingProvider) => RAGBuilder;
+  pollIntervalMs?: number;
+  heartbeatIntervalMs?: number;
+  staleAfterMs?: number;
+  maxAttempts?: number;
+}
+
+export class KnowledgeJobRunner {
+  private store: KnowledgeJobStore;
+  private sources: KnowledgeSourceStore;
+  private createBuilder: (uid: string, embeddingProvider?: EmbeddingProvider) => RAGBuilder;
+  private pollIntervalMs: number;
+  private heartbeatIntervalMs: number;
+  private staleAfterMs: number;
+  private maxAttempts: number;
+  private workerId: string;
+  private running: boolean;
+
+  constructor(options: KnowledgeJobRunnerOptions) {
+    this.store = options.store;
+    this.sources = options.sources;
+    this.createBuilder = options.createBuilder;
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 30000;
+    this.staleAfterMs = options.staleAfterMs ?? 5 * 60 * 1000;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.workerId = randomUUID();
+    this.running = false;
+  }
+
+  /**
+   * Start polling for jobs
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    void this.loop();
+    logger.log(`Knowledge job runner started (worker ${this.workerId})`);
+  }
+
+  /**
+   * Stop polling for jobs after the current job
+   */
+  stop(): void {
+    this.running = false;
+  }
+
+  private async loop(): Promise<void> {
+    while (this.running) {
+      let job: WithId<KnowledgeJob> | null = null;
+
+      try {
+        job = await this.store.claimNextJob(this.workerId, this.staleAfterMs);
+      } catch (error) {
+        logger.warn(`Could not claim knowledge job: ${error}`);
+      }
+
+      if (job) {
+        await this.runJob(job);
+      } else {
+        await sleep(this.pollIntervalMs);
+      }
+    }
+  }
+
+  /**
+   * Run a claimed job to completion
+   */
+  private async runJob(job: WithId<KnowledgeJob>): Promise<void> {
+    if (job.attempts > this.maxAttempts) {
+      logger.error(`Knowledge job ${job._id} abandoned after ${job.attempts - 1} attempts`);
+      await this.failJob(job, `Abandoned after ${job.attempts - 1} attempts`);
+
+      return;
+    }
+
+    const heartbeat = setInterval(() => {
+      this.store.heartbeat(job._id, this.workerId).catch((error) => {
+        logger.warn(`Could not send heartbeat for job ${job._id}: ${error}`);
+      });
+    }, this.heartbeatIntervalMs);
+
+    try {
+      job.startedAt = job.startedAt ?? new Date();
+
+      if (job.kind === 'scrape') {
+        await this.runSync(job);
+      } else if (job.kind === 'reindex') {
+        await this.runReindex(job);
+      } else {
+        await this.runItems(job);
+      }
+
+      await this.store.finishJob(job, this.workerId, 'done');
+    } catch (error) {
+      logger.error(`Knowledge job ${job._id} failed:`, error);
+      await this.failJob(job, error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Mark a job and its unfinished items as failed
+   */
+  private async failJob(job: WithId<KnowledgeJob>, error: string): Promise<void> {
+    for (const item of job.items) {
+      if (item.state !== 'done' && item.state !== 'failed') {
+        item.state = 'failed';
+        item.error = item.error ?? error;
+      }
+
+      if (item.fileId) {
+        await this.store.deleteUpload(item.fileId);
+        delete item.fileId;
+      }
+    }
+
+    try {
+      await this.store.finishJob(job, this.workerId, 'failed', error);
+    } catch (finishError) {
+      logger.error(`Could not mark knowledge job ${job._id} as failed:`, finishError);
+    }
+  }
+
+  private async setItemState(
+    job: WithId<KnowledgeJob>,
+    item: KnowledgeJobItem,
+    update: Partial<KnowledgeJobItem>,
+  ): Promise<void> {
+    Object.assign(item, update);
+    await this.store.saveProgress(job, this.workerId);
+  }
+
+  /**
+   * Process the files or URLs of an upload or scrape-url job one by one
+   */
+  private async runItems(job: WithId<KnowledgeJob>): Promise<void> {
+    const builder = this.createBuilder(job.uid);
+
+    for (const item of job.items) {
+      if (item.state === 'done' || item.state === 'failed') {
+        continue;
+      }
+
+      // Remove the partial output of an item interrupted by a restart
+      if (item.sourceId) {
+        await builder.cleanupBySource(job.uid, item.sourceId);
+        await this.sources.deleteSource(job.uid, item.sourceId);
+        delete item.sourceId;
+      }
+
+      try {
+        await this.setItemState(job, item, { state: 'parsing' });
+        const { text, segments, contentHash, size, format } = await this.extractItem(job, item);
+
+        await this.setItemState(job, item, { state: 'embedding' });
+        const { source, summary, redactions } = await ingestText(
+          builder,
+          this.sources,
+          {
+            uid: job.uid,
+            type: item.type === 'url' ? 'url' : 'file',
+            name: item.name,
+            ...(item.type === 'url' && { origin: item.value }),
+            ...(item.archive && { archive: item.archive, folder: item.folder ?? '' }),
+            format,
+            size,
+            contentHash,
+            text,
+            segments,
+            chunking: job.chunking ?? resolveChunkingConfig(),
+            redaction: job.redaction,
+            ...(item.type === 'url' && job.crawl && { crawl: job.crawl }),
+          },
+          (sourceId) => this.setItemState(job, item, { sourceId }),
+        );
+
+        if (!source) {
+          throw new Error('No chunks could be embedded');
+        }
+
+        job.documentsCreated += summary.inserted;
+        await this.setItemState(job, item, {
+          state: 'done',
+          sourceId: source._id.toString(),
+          documentsCreated: summary.inserted,
+          ...(summary.failedIndices.length > 0 && { failedIndices: summary.failedIndices }),
+          redactions,
+        });
+      } catch (error) {
+        logger.error(`Error processing ${item.name}:`, error);
+        await this.setItemState(job, item, {
+          state: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      if (item.fileId) {
+        await this.store.deleteUpload(item.fileId);
+        delete item.fileId;
+        await this.store.saveProgress(job, this.workerId);
+      }
+    }
+  }
+
+  /**
+   * Extract the text of an uploaded file or URL
+   * URLs of crawl jobs are extracted together with the same-origin pages they link to
+   */
+  private async extractItem(
+    job: WithId<KnowledgeJob>,
+    item: KnowledgeJobItem,
+  ): Promise<{
+    text: string;
+    segments?: ParsedSegment[];
+    contentHash: string;
+    size: number;
+    format: string;
+  }> {
+    if (item.type === 'url') {
+      const scraper = new WebScraper({ urls: [item.value!], crawl: job.crawl });
+      await scraper.scrape();
+      const text = scraper.getContent();
+
+      if (job.crawl) {
+        await this.setItemState(job, item, { pages: scraper.getPages() });
+      }
+
+      if (text.trim().length === 0) {
+        throw new Error(scraper.getFailureReason());
+      }
+
+      return {
+        text,
+        contentHash: hashContent(text),
+        size: Buffer.byteLength(text),
+        format: 'html',
+      };
+    }
+
+    if (!item.fileId) {
+      throw new Error('Uploaded file is no longer available');
+    }
+
+    const buffer = await this.store.readUpload(item.fileId);
+    const { text, segments } = await fileParser.parseDocument(buffer, item.name);
+
+    if (text.trim().length === 0) {
+      throw new Error('No text content could be extracted from the file');
+    }
+
+    return {
+      text,
+      segments,
+      contentHash: hashContent(buffer),
+      size: buffer.length,
+      format: item.name.toLowerCase().split('.').pop() || '',
+    };
+  }
+
+  /**
+   * Re-sync the knowledge of a character
+   * The sync is staged as a whole, so an interrupted run simply starts over
+   */
+  private async runSync(job: WithId<KnowledgeJob>): Promise<void> {
+    for (const item of job.items) {
+      Object.assign(item, { state: 'queued' });
+      delete item.error;
+    }
+
+    const result = await syncCharacterKnowledge({
+      uid: job.uid,
+      items: job.items.map(({ type, name, value }) => ({ type, name, value: value ?? '' })),
+      chunking: job.chunking ?? resolveChunkingConfig(),
+      redaction: job.redaction,
+      sources: this.sources,
+      createBuilder: this.createBuilder,
+      stagingId: job._id.toString(),
+      onPhase: (index, phase) => this.setItemState(job, job.items[index], { state: phase }),
+      onItemResult: (index, { type: _type, name: _name, status, ...result }) =>
+        this.setItemState(job, job.items[index], {
+          ...result,
+          state: status === 'failed' ? 'failed' : 'done',
+          outcome: status,
+        }),
+    });
+
+    job.documentsCreated = result.documentsCreated;
+    job.sourcesRemoved = result.removedSources;
+  }
+
+  /**
+   * Re-embed the knowledge of the uids of a reindex job with its target model
+   * Every uid is switched over on its own; an interrupted uid starts over
+   */
+  private async runReindex(job: WithId<KnowledgeJob>): Promise<void> {
+    const provider = createEmbeddingProvider(job.embedding);
+
+    for (const item of job.items) {
+      if (item.state === 'done' || item.state === 'failed') {
+        continue;
+      }
+
+      try {
+        await this.setItemState(job, item, { state: 'embedding' });
+        const result = await reindexKnowledge({
+          uid: item.name,
+          sources: this.sources,
+          createBuilder: (uid) => this.createBuilder(uid, provider),
+          stagingId: job._id.toString(),
+          onProgress: (processed) => this.setItemState(job, item, { documentsCreated: processed }),
+        });
+
+        job.documentsCreated += result.chunks;
+        await this.setItemState(job, item, {
+          state: 'done',
+          outcome: result.reembedded > 0 ? 'reindexed' : 'unchanged',
+          documentsCreated: result.chunks,
+        });
+      } catch (error) {
+        logger.error(`Error re-indexing ${item.name}:`, error);
+        await this.setItemState(job, item, {
+          state: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Create a KnowledgeJobStore configured from environment variables
+ */
+export function createKnowledgeJobStore(): KnowledgeJobStore {
+  return new KnowledgeJobStore({
+    databaseName: process.env.DATABASE_NAME || 'nfa',
+  });
+}
+
+let runner: KnowledgeJobRunner | null = null;
+
+/**
+ * Start the background knowledge job runner of this process
+ */
+export function startKnowledgeJobRunner(): KnowledgeJobRunner {
+  if (!runner) {
+    runner = new KnowledgeJobRunner({
+      store: createKnowledgeJobStore(),
+      sources: createKnowledgeSourceStore(),
+      createBuilder: createRAGBuilder,
+      pollIntervalMs: parseInt(process.env.KNOWLEDGE_JOB_POLL_INTERVAL_MS || '2000', 10),
+    });
+  }
+
+  runner.start();
+
+  return runner;
+}
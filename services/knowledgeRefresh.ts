@@ -0,0 +1,459 @@
+/**
+ * Knowledge Refresh
+ * Fetches URL knowledge sources again on their refresh schedule, so agent knowledge
+ * follows pages that change after ingestion
+ *
+ * Features:
+ * - Cron schedules per source (node-cron), run only on the replica holding the refresh lock
+ * - Content changes detected by hash; only changed sources are chunked and embedded again
+ * - New chunks are staged and switched in atomically, so the source keeps its id and a
+ *   failed refresh leaves the stored version in place
+ * - Fetch history with the HTTP status of every fetched page
+ */
+import { Collection, Db, WithId } from 'mongodb';
+import cron, { ScheduledTask } from 'node-cron';
+
+import { connectToDatabase, getClient } from '../config';
+import { KnowledgeFetch, KnowledgeSource, KnowledgeSourceRefresh } from '../models';
+import { createScopedLogger } from '../utils';
+import { resolveChunkingConfig } from './chunker';
+import { prepareText } from './knowledgeIngestion';
+import { KnowledgeSourceStore, createKnowledgeSourceStore, hashContent } from './knowledgeSources';
+import { LeaderLock } from './leaderLock';
+import { RAGBuilder, createRAGBuilder } from './ragBuilder';
+import { RedactionPolicyStore, createRedactionPolicyStore } from './redaction';
+import { WebScraper } from './webScraper';
+
+const logger = createScopedLogger('services/knowledgeRefresh');
+
+// Fetch history is kept this long
+const FETCH_HISTORY_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+export type RefreshSchedule = Pick<KnowledgeSourceRefresh, 'schedule' | 'timezone'>;
+
+interface KnowledgeFetchStoreOptions {
+  databaseName?: string;
+  collectionName?: string;
+}
+
+interface RefreshSourceOptions {
+  source: WithId<KnowledgeSource>;
+  sources: KnowledgeSourceStore;
+  fetches: KnowledgeFetchStore;
+  redactionPolicies: RedactionPolicyStore;
+  createBuilder: (uid: string) => RAGBuilder;
+}
+
+interface KnowledgeRefreshSchedulerOptions {
+  sources: KnowledgeSourceStore;
+  fetches: KnowledgeFetchStore;
+  redactionPolicies: RedactionPolicyStore;
+  lock: LeaderLock;
+  createBuilder: (uid: string) => RAGBuilder;
+  syncIntervalMs?: number; // How often the lock is renewed and schedules are reloaded
+}
+
+/**
+ * Validate a refresh schedule
+ * Schedules are five-field cron expressions (minute precision) with an optional
+ * IANA time zone
+ */
+export function resolveRefreshSchedule({ schedule, timezone }: RefreshSchedule): RefreshSchedule {
+  if (
+    typeof schedule !== 'string' ||
+    schedule.trim().split(/\s+/).length !== 5 ||
+    !cron.validate(schedule)
+  ) {
+    throw new Error('schedule must be a five-field cron expression, e.g. "0 6 * * 1"');
+  }
+
+  if (timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new Error(`Unknown time zone: ${timezone}`);
+    }
+  }
+
+  return { schedule: schedule.trim(), ...(timezone && { timezone }) };
+}
+
+export class KnowledgeFetchStore {
+  private databaseName: string;
+  private collectionName: string;
+
+  constructor(options: KnowledgeFetchStoreOptions = {}) {
+    this.databaseName = options.databaseName ?? 'nfa';
+    this.collectionName = options.collectionName ?? 'knowledge_source_fetches';
+  }
+
+  /**
+   * Get or create the fetch history collection
+   */
+  private async getCollection(): Promise<Collection<KnowledgeFetch>> {
+    // Ensure database is connected
+    await connectToDatabase();
+    const db: Db = getClient().db(this.databaseName);
+    const collection = db.collection<KnowledgeFetch>(this.collectionName);
+
+    // Create indexes
+    try {
+      const indexes = await collection.listIndexes().toArray();
+      const indexNames = indexes.map((idx) => idx.name);
+
+      if (!indexNames.includes('uid_1_sourceId_1_fetchedAt_-1')) {
+        await collection.createIndex({ uid: 1, sourceId: 1, fetchedAt: -1 });
+      }
+
+      if (!indexNames.includes('fetchedAt_1')) {
+        await collection.createIndex(
+          { fetchedAt: 1 },
+          { expireAfterSeconds: FETCH_HISTORY_TTL_SECONDS },
+        );
+      }
+    } catch (error) {
+      logger.warn(`Could not create indexes: ${error}`);
+    }
+
+    return collection;
+  }
+
+  /**
+   * Record a fetch
+   */
+  async recordFetch(fetch: KnowledgeFetch): Promise<WithId<KnowledgeFetch>> {
+    const collection = await this.getCollection();
+    const result = await collection.insertOne({ ...fetch });
+
+    return { ...fetch, _id: result.insertedId };
+  }
+
+  /**
+   * List the fetches of a source, most recent first
+   */
+  async listFetches(
+    uid: string,
+    sourceId: string,
+    limit: number = 50,
+  ): Promise<WithId<KnowledgeFetch>[]> {
+    const collection = await this.getCollection();
+
+    return collection.find({ uid, sourceId }).sort({ fetchedAt: -1 }).limit(limit).toArray();
+  }
+}
+
+/**
+ * Create a KnowledgeFetchStore configured from environment variables
+ */
+export function createKnowledgeFetchStore(): KnowledgeFetchStore {
+  return new KnowledgeFetchStore({
+    databaseName: process.env.DATABASE_NAME || 'nfa',
+  });
+}
+
+/**
+ * Fetch a URL source again and re-embed it when its content changed
+ * The chunks are rebuilt with the chunking of the source and the current redaction
+ * policy of its uid. The fetch is recorded in the history and on the source.
+ */
+export async function refreshSource({
+  source,
+  sources,
+  fetches,
+  redactionPolicies,
+  createBuilder,
+}: RefreshSourceOptions): Promise<KnowledgeFetch> {
+  const { uid } = source;
+  const sourceId = source._id.toString();
+  const url = source.origin ?? source.name;
+  const stagingUid = `${uid}:refresh:${sourceId}`;
+  const stagingBuilder = createBuilder(stagingUid);
+  const fetchedAt = new Date();
+  const fetch: KnowledgeFetch = {
+    uid,
+    sourceId,
+    url,
+    status: 'failed',
+    pages: [],
+    fetchedAt,
+    durationMs: 0,
+  };
+
+  try {
+    const scraper = new WebScraper({ urls: [url], crawl: source.crawl });
+    await scraper.scrape();
+    const text = scraper.getContent();
+    fetch.pages = scraper.getPages();
+
+    // The source URL is always fetched first
+    if (fetch.pages[0]?.statusCode !== undefined) {
+      fetch.statusCode = fetch.pages[0].statusCode;
+    }
+
+    if (text.trim().length === 0) {
+      throw new Error(scraper.getFailureReason());
+    }
+
+    const contentHash = hashContent(text);
+    fetch.contentHash = contentHash;
+
+    if (contentHash === source.contentHash) {
+      fetch.status = 'unchanged';
+    } else {
+      const chunking = source.chunking ?? resolveChunkingConfig();
+      const redaction = await redactionPolicies.getPolicy(uid);
+      const { chunks, language } = prepareText({ text, chunking, redaction });
+
+      // Discard anything left staged by an interrupted refresh of the source
+      await stagingBuilder.cleanupByUid(stagingUid);
+
+      const summary = await stagingBuilder.buildFromChunks(chunks, false, {
+        chunking,
+        source_id: sourceId,
+        source_name: source.name,
+        language,
+      });
+
+      if (summary.inserted === 0) {
+        throw new Error('No chunks could be embedded');
+      }
+
+      const replaced = await sources.listSourceChunkUuids(uid, sourceId);
+      await createBuilder(uid).replaceWithStaged(stagingUid, uid, replaced);
+      await sources.updateSource(source._id, {
+        contentHash,
+        size: Buffer.byteLength(text),
+        chunkCount: summary.inserted,
+        chunking,
+        redaction,
+        language,
+      });
+
+      fetch.status = 'updated';
+      fetch.documentsCreated = summary.inserted;
+    }
+  } catch (error) {
+    logger.error(`Error refreshing ${url}:`, error);
+    fetch.status = 'failed';
+    fetch.error = error instanceof Error ? error.message : 'Unknown error';
+
+    // The stored version stays in place; drop whatever was staged
+    await stagingBuilder.cleanupByUid(stagingUid).catch((cleanupError) => {
+      logger.warn(`Could not clean up ${stagingUid}: ${cleanupError}`);
+    });
+  }
+
+  fetch.durationMs = Date.now() - fetchedAt.getTime();
+  await fetches.recordFetch(fetch);
+  await sources.updateRefreshStatus(source._id, {
+    lastFetchedAt: fetchedAt,
+    lastStatus: fetch.status,
+    ...(fetch.status === 'updated' && { lastChangedAt: fetchedAt }),
+  });
+
+  return fetch;
+}
+
+export class KnowledgeRefreshScheduler {
+  private sources: KnowledgeSourceStore;
+  private fetches: KnowledgeFetchStore;
+  private redactionPolicies: RedactionPolicyStore;
+  private lock: LeaderLock;
+  private createBuilder: (uid: string) => RAGBuilder;
+  private syncIntervalMs: number;
+  private tasks: Map<string, { uid: string; key: string; task: ScheduledTask }>;
+  private pending: Set<string>;
+  private queue: Promise<void>;
+  private timer: NodeJS.Timeout | null;
+  private leader: boolean;
+
+  constructor(options: KnowledgeRefreshSchedulerOptions) {
+    this.sources = options.sources;
+    this.fetches = options.fetches;
+    this.redactionPolicies = options.redactionPolicies;
+    this.lock = options.lock;
+    this.createBuilder = options.createBuilder;
+    this.syncIntervalMs = options.syncIntervalMs ?? 60000;
+    this.tasks = new Map();
+    this.pending = new Set();
+    this.queue = Promise.resolve();
+    this.timer = null;
+    this.leader = false;
+  }
+
+  /**
+   * Start competing for the refresh lock and scheduling refreshes while holding it
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.sync(), this.syncIntervalMs);
+    void this.sync();
+    logger.log('Knowledge refresh scheduler started');
+  }
+
+  /**
+   * Stop scheduling refreshes and hand the lock over to another replica
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    this.clearTasks();
+
+    if (this.leader) {
+      this.leader = false;
+      await this.lock.release();
+    }
+  }
+
+  /**
+   * Renew the lock and bring the cron tasks in line with the stored schedules
+   */
+  private async sync(): Promise<void> {
+    try {
+      const leader = await this.lock.acquire();
+
+      if (leader !== this.leader) {
+        logger.log(
+          leader
+            ? 'Acquired the knowledge refresh lock, scheduling refreshes'
+            : 'Lost the knowledge refresh lock, refreshes run on another replica',
+        );
+      }
+
+      this.leader = leader;
+
+      if (!leader) {
+        this.clearTasks();
+
+        return;
+      }
+
+      await this.reconcile();
+    } catch (error) {
+      logger.warn(`Could not sync knowledge refresh schedules: ${error}`);
+    }
+  }
+
+  /**
+   * Create, replace and remove cron tasks to match the scheduled sources
+   */
+  private async reconcile(): Promise<void> {
+    const scheduled = await this.sources.listScheduledSources();
+    const current = new Set<string>();
+
+    for (const { _id, uid, type, refresh } of scheduled) {
+      if (type !== 'url' || !refresh) {
+        continue;
+      }
+
+      const sourceId = _id.toString();
+      const key = `${refresh.schedule} ${refresh.timezone ?? ''}`;
+      current.add(sourceId);
+
+      if (this.tasks.get(sourceId)?.key === key) {
+        continue;
+      }
+
+      this.removeTask(sourceId);
+      const task = cron.schedule(refresh.schedule, () => this.enqueue(uid, sourceId), {
+        name: `knowledge-refresh-${sourceId}`,
+        ...(refresh.timezone && { timezone: refresh.timezone }),
+      });
+      this.tasks.set(sourceId, { uid, key, task });
+    }
+
+    for (const sourceId of this.tasks.keys()) {
+      if (!current.has(sourceId)) {
+        this.removeTask(sourceId);
+      }
+    }
+  }
+
+  private removeTask(sourceId: string): void {
+    const entry = this.tasks.get(sourceId);
+
+    if (entry) {
+      void entry.task.destroy();
+      this.tasks.delete(sourceId);
+    }
+  }
+
+  private clearTasks(): void {
+    [...this.tasks.keys()].forEach((sourceId) => this.removeTask(sourceId));
+  }
+
+  /**
+   * Queue a refresh; refreshes run one at a time and a source is queued at most once
+   */
+  private enqueue(uid: string, sourceId: string): void {
+    if (this.pending.has(sourceId)) {
+      return;
+    }
+
+    this.pending.add(sourceId);
+    this.queue = this.queue
+      .then(() => this.run(uid, sourceId))
+      .finally(() => this.pending.delete(sourceId));
+  }
+
+  private async run(uid: string, sourceId: string): Promise<void> {
+    try {
+      // The lock may have moved to another replica since the refresh was queued
+      if (!this.leader) {
+        return;
+      }
+
+      const source = await this.sources.getSource(uid, sourceId);
+
+      if (!source?.refresh) {
+        return;
+      }
+
+      const fetch = await refreshSource({
+        source,
+        sources: this.sources,
+        fetches: this.fetches,
+        redactionPolicies: this.redactionPolicies,
+        createBuilder: this.createBuilder,
+      });
+      logger.log(`Refreshed ${fetch.url}: ${fetch.status}`);
+    } catch (error) {
+      logger.error(`Error refreshing knowledge source ${sourceId}:`, error);
+    }
+  }
+}
+
+let scheduler: KnowledgeRefreshScheduler | null = null;
+
+/**
+ * Start the knowledge refresh scheduler of this process
+ * Every replica may start it; the lock makes sure only one of them runs refreshes
+ */
+export function startKnowledgeRefreshScheduler(): KnowledgeRefreshScheduler {
+  if (!scheduler) {
+    const syncIntervalMs = parseInt(process.env.KNOWLEDGE_REFRESH_SYNC_INTERVAL_MS || '60000', 10);
+
+    scheduler = new KnowledgeRefreshScheduler({
+      sources: createKnowledgeSourceStore(),
+      fetches: createKnowledgeFetchStore(),
+      redactionPolicies: createRedactionPolicyStore(),
+      lock: new LeaderLock({
+        name: 'knowledge-refresh',
+        databaseName: process.env.DATABASE_NAME || 'nfa',
+        ttlMs: syncIntervalMs * 3,
+      }),
+      createBuilder: createRAGBuilder,
+      syncIntervalMs,
+    });
+  }
+
+  scheduler.start();
+
+  return scheduler;
+}
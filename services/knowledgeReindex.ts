@@ -0,0 +1,95 @@
+/**
+ * Knowledge Re-index
+ * Re-embeds the knowledge of a uid into a new embedding model or dimension
+ *
+ * Features:
+ * - Chunks are streamed and embedded again in batches; chunks already embedded
+ *   with the target model are copied without new embeddings requests
+ * - The new chunks are staged under a temporary uid and switched in atomically
+ *   (in a transaction where supported), so searches never see a mix of models
+ * - A uid is left untouched when any of its chunks cannot be embedded
+ */
+import { createScopedLogger } from '../utils';
+import { KnowledgeSourceStore } from './knowledgeSources';
+import { ImportedDocument, RAGBuilder, RAGDocument } from './ragBuilder';
+
+const logger = createScopedLogger('services/knowledgeReindex');
+
+// Chunks embedded per batch while re-indexing
+const REINDEX_BATCH_SIZE = 100;
+
+interface ReindexOptions {
+  uid: string;
+  sources: KnowledgeSourceStore;
+  createBuilder: (uid: string) => RAGBuilder; // Builds with the target embedding provider
+  stagingId: string; // Stable id for the staged data, so an interrupted run can be cleaned up
+  onProgress?: (processed: number) => Promise<void>;
+}
+
+export interface ReindexResult {
+  chunks: number;
+  reembedded: number; // Chunks embedded again; the others already used the target model
+}
+
+/**
+ * Re-embed all chunks of a uid with the provider of `createBuilder` and switch them in
+ */
+export async function reindexKnowledge({
+  uid,
+  sources,
+  createBuilder,
+  stagingId,
+  onProgress,
+}: ReindexOptions): Promise<ReindexResult> {
+  const stagingUid = `${uid}:reindex:${stagingId}`;
+  const stagingBuilder = createBuilder(stagingUid);
+
+  // Discard anything left staged by an interrupted run with the same id
+  await stagingBuilder.cleanupByUid(stagingUid);
+
+  const replacedUuids: string[] = [];
+  const result: ReindexResult = { chunks: 0, reembedded: 0 };
+  let batch: ImportedDocument[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) {
+      return;
+    }
+
+    const summary = await stagingBuilder.importDocuments(batch);
+
+    if (summary.failed > 0) {
+      throw new Error(`${summary.failed} chunks could not be embedded with the target model`);
+    }
+
+    result.chunks += summary.inserted;
+    result.reembedded += summary.reembedded;
+    batch = [];
+    await onProgress?.(result.chunks);
+  };
+
+  const chunks = await sources.streamChunks(uid, { includeEmbeddings: true });
+
+  try {
+    for await (const chunk of chunks) {
+      replacedUuids.push(chunk.uuid);
+      batch.push(chunk as RAGDocument);
+
+      if (batch.length >= REINDEX_BATCH_SIZE) {
+        await flush();
+      }
+    }
+
+    await flush();
+  } catch (error) {
+    await stagingBuilder.cleanupByUid(stagingUid);
+    throw error;
+  } finally {
+    await chunks.close();
+  }
+
+  await stagingBuilder.replaceWithStaged(stagingUid, uid, replacedUuids);
+  logger.log(`Re-indexed ${result.chunks} chunks of ${uid} (${result.reembedded} re-embedded)`);
+
+  return result;
+}
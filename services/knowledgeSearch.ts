@@ -0,0 +1,731 @@
+/**
+ * Knowledge Search
+ * Semantic retrieval over the RAG documents written by RAGBuilder
+ *
+ * Features:
+ * - Query embeddings with the same model and dimension used at ingestion; chunks
+ *   embedded with another model are never compared with the query
+ * - Atlas $vectorSearch when a vector index is available
+ * - In-process HNSW index for plain MongoDB deployments, or an exact cosine
+ *   similarity scan
+ * - Keyword retrieval over chunk content (MongoDB text index, with a scan fallback)
+ *   for exact SKUs, plan names and acronyms
+ * - Hybrid retrieval merging both result lists with weighted reciprocal rank fusion
+ * - Optional LLM reranking of the retrieved candidates
+ * - Top-k selection with score threshold filtering
+ */
+import { Collection, Db, Filter, MongoServerError } from 'mongodb';
+
+import { connectToDatabase, getClient } from '../config';
+import { RetrievalMode } from '../models';
+import { createScopedLogger } from '../utils';
+import { EmbeddingProvider, OpenAIEmbeddingProvider, createEmbeddingProvider } from './embeddings';
+import { DocumentMetadata, RAGDocument } from './ragBuilder';
+import { KnowledgeReranker, getKnowledgeReranker } from './reranker';
+import { keywordTerms } from './tokenizer';
+import { KnowledgeVectorIndex, getKnowledgeVectorIndex } from './vectorIndex';
+
+const logger = createScopedLogger('services/knowledgeSearch');
+
+// Set once $vectorSearch is found missing in 'auto' mode, so later searches go straight
+// to the in-process index (or local scan) instead of retrying Atlas on every request
+let atlasUnavailable = false;
+
+// Set once $text has failed for lack of a text index, for the same reason
+let textIndexUnavailable = false;
+
+// Server error codes of a missing text index and of an aggregation stage the server
+// does not know, such as $vectorSearch outside Atlas
+const INDEX_NOT_FOUND = 27;
+const UNRECOGNIZED_STAGE = 40324;
+
+// Uids already reported as holding chunks of another embedding model
+const staleModelUids = new Set<string>();
+
+// Reciprocal rank fusion constant; larger values flatten the rank contribution
+const DEFAULT_RRF_K = 60;
+
+// Candidates fetched from each retriever per requested result in hybrid mode
+const HYBRID_CANDIDATE_FACTOR = 4;
+
+// Candidates retrieved per requested result when the results are filtered by language
+// or embedding model afterwards, instead of by the index
+const FILTER_CANDIDATE_FACTOR = 4;
+
+// Candidates retrieved per requested result when the results are reranked
+const RERANK_CANDIDATE_FACTOR = 3;
+
+export type VectorSearchMode = 'auto' | 'atlas' | 'hnsw' | 'local';
+
+export type { RetrievalMode } from '../models';
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ['vector', 'keyword', 'hybrid'];
+
+export type Retriever = 'vector' | 'keyword';
+
+export interface HybridWeights {
+  vector?: number;
+  keyword?: number;
+}
+
+export interface KnowledgeSearchOptions {
+  databaseName?: string;
+  collectionName?: string;
+  embeddingsDimension?: number; // Used when no provider is given
+  embeddingsModel?: string; // Used when no provider is given
+  embeddingProvider?: EmbeddingProvider; // Must match the provider used at ingestion
+  vectorIndexName?: string;
+  mode?: VectorSearchMode;
+  vectorIndex?: KnowledgeVectorIndex; // Used in 'hnsw' mode, and by 'auto' without Atlas
+  retrievalMode?: RetrievalMode; // Default retrieval mode of queries (default: vector)
+  reranker?: KnowledgeReranker; // Required by queries that ask for reranking
+}
+
+export interface KnowledgeSearchQuery {
+  uid: string;
+  query: string;
+  topK?: number;
+  minScore?: number; // Minimum cosine similarity of vector matches
+  mode?: RetrievalMode; // Hybrid is opt-in; its scores are fused ranks, not similarities
+  weights?: HybridWeights; // Weight of each retriever in rank fusion (default 1 each)
+  rrfK?: number;
+  rerank?: boolean; // Rerank the retrieved candidates with the configured reranker
+  language?: string; // Only return chunks of sources detected in this language (ISO 639-1)
+}
+
+type RetrievalQuery = Required<Omit<KnowledgeSearchQuery, 'language'>> &
+  Pick<KnowledgeSearchQuery, 'language'>;
+
+/**
+ * MongoDB filter restricting chunks to a language, or no restriction
+ */
+function languageFilter(language?: string): Filter<RAGDocument> {
+  return language ? { 'metadata.language': language } : {};
+}
+
+export interface KnowledgeSearchResult {
+  uuid: string;
+  content: string;
+  score: number; // Cosine similarity, text score or fused score depending on the mode
+  created_at: Date;
+  metadata: DocumentMetadata;
+  retrievers?: Retriever[]; // Retrievers that matched the chunk
+  ranks?: Partial<Record<Retriever, number>>; // 1-based rank in each retriever's list
+  rerankScore?: number; // Relevance assigned by the reranker, from 0 to 1
+}
+
+/**
+ * Whether a search failed because the deployment lacks the index or stage it needs,
+ * as opposed to a failure of this query alone (bad filter, timeout, network)
+ */
+function isMissingIndexError(error: unknown): boolean {
+  return (
+    error instanceof MongoServerError &&
+    (error.code === INDEX_NOT_FOUND ||
+      error.code === UNRECOGNIZED_STAGE ||
+      /index not found|text index required|unrecognized pipeline stage/i.test(error.message))
+  );
+}
+
+/**
+ * Cosine similarity between two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Merge ranked result lists with weighted reciprocal rank fusion
+ * Each list contributes weight / (k + rank) to the score of the chunks it contains
+ */
+export function reciprocalRankFusion(
+  lists: { retriever: Retriever; results: KnowledgeSearchResult[]; weight: number }[],
+  k: number = DEFAULT_RRF_K,
+): KnowledgeSearchResult[] {
+  const fused = new Map<string, KnowledgeSearchResult>();
+
+  for (const { retriever, results, weight } of lists) {
+    results.forEach((result, index) => {
+      const rank = index + 1;
+      const entry = fused.get(result.uuid) ?? {
+        ...result,
+        score: 0,
+        retrievers: [],
+        ranks: {},
+      };
+
+      entry.score += weight / (k + rank);
+      entry.retrievers!.push(retriever);
+      entry.ranks![retriever] = rank;
+      fused.set(result.uuid, entry);
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+export class KnowledgeSearch {
+  private databaseName: string;
+  private collectionName: string;
+  private vectorIndexName: string;
+  private mode: VectorSearchMode;
+  private vectorIndex?: KnowledgeVectorIndex;
+  private retrievalMode: RetrievalMode;
+  private reranker?: KnowledgeReranker;
+  private embeddings: EmbeddingProvider;
+
+  constructor(options: KnowledgeSearchOptions = {}) {
+    this.databaseName = options.databaseName ?? 'nfa';
+    this.collectionName = options.collectionName ?? 'knowledges';
+    this.vectorIndexName = options.vectorIndexName ?? 'vector_index';
+    this.mode = options.mode ?? 'auto';
+    this.vectorIndex = options.vectorIndex;
+    this.retrievalMode = options.retrievalMode ?? 'vector';
+    this.reranker = options.reranker;
+    this.embeddings =
+      options.embeddingProvider ??
+      new OpenAIEmbeddingProvider({
+        model: options.embeddingsModel,
+        dimension: options.embeddingsDimension,
+      });
+  }
+
+  /**
+   * Get MongoDB collection
+   */
+  private async getCollection(): Promise<Collection<RAGDocument>> {
+    // Ensure database is connected
+    await connectToDatabase();
+    const client = getClient();
+    const db: Db = client.db(this.databaseName);
+
+    return db.collection<RAGDocument>(this.collectionName);
+  }
+
+  /**
+   * Create embeddings for the query text with the embedding provider
+   */
+  private async createEmbeddings(text: string): Promise<number[]> {
+    const [embedding] = await this.embeddings.embed([text]);
+
+    return embedding;
+  }
+
+  /**
+   * Whether a chunk was embedded with the query embedding model and dimension
+   * Chunks stored before the model was recorded are assumed to match
+   */
+  private isComparable(metadata: DocumentMetadata): boolean {
+    return (
+      metadata.embedding_model === undefined ||
+      (metadata.embedding_model === this.embeddings.model &&
+        metadata.embedding_dimension === this.embeddings.dimension)
+    );
+  }
+
+  /**
+   * MongoDB filter matching the chunks accepted by isComparable
+   */
+  private comparableFilter(): Filter<RAGDocument> {
+    return {
+      $or: [
+        {
+          'metadata.embedding_model': this.embeddings.model,
+          'metadata.embedding_dimension': this.embeddings.dimension,
+        },
+        { 'metadata.embedding_model': { $exists: false } },
+      ],
+    };
+  }
+
+  /**
+   * Warn once per uid when some of its chunks were embedded with another model
+   * Those chunks are left out of vector search until the uid is re-indexed
+   */
+  private async reportStaleChunks(collection: Collection<RAGDocument>, uid: string) {
+    if (staleModelUids.has(uid)) {
+      return;
+    }
+
+    staleModelUids.add(uid);
+    const stale = await collection.countDocuments({ uid, $nor: [this.comparableFilter()] });
+
+    if (stale > 0) {
+      logger.warn(
+        `${stale} chunks of ${uid} were embedded with another model than ` +
+          `${this.embeddings.model} (${this.embeddings.dimension} dimensions) and are ` +
+          'excluded from vector search; re-index the knowledge to include them',
+      );
+    }
+  }
+
+  /**
+   * Run Atlas $vectorSearch with a pre-filter
+   */
+  private async runAtlasSearch(
+    collection: Collection<RAGDocument>,
+    filter: Filter<RAGDocument>,
+    queryVector: number[],
+    topK: number,
+  ): Promise<KnowledgeSearchResult[]> {
+    const results = await collection
+      .aggregate<KnowledgeSearchResult>([
+        {
+          $vectorSearch: {
+            index: this.vectorIndexName,
+            path: 'embedding',
+            queryVector,
+            numCandidates: Math.max(topK * 10, 100),
+            limit: topK,
+            filter,
+          },
+        },
+        {
+          $project: {
+            _id: 0,
+            uuid: 1,
+            content: 1,
+            created_at: 1,
+            metadata: 1,
+            score: { $meta: 'vectorSearchScore' },
+          },
+        },
+      ])
+      .toArray();
+
+    // Atlas normalizes cosine scores to (1 + cosine) / 2; convert back so both
+    // search modes report the same scale
+    return results.map((result) => ({ ...result, score: result.score * 2 - 1 }));
+  }
+
+  /**
+   * Search with Atlas $vectorSearch
+   * Requires a vector index on `embedding` with `uid` declared as a filter field. Language
+   * and embedding model are filtered by the index when it also declares
+   * `metadata.language`, `metadata.embedding_model` and `metadata.embedding_dimension`;
+   * otherwise this query retrieves extra candidates and filters them in process.
+   */
+  private async atlasSearch(
+    collection: Collection<RAGDocument>,
+    uid: string,
+    queryVector: number[],
+    topK: number,
+    language?: string,
+  ): Promise<KnowledgeSearchResult[]> {
+    try {
+      return await this.runAtlasSearch(
+        collection,
+        { uid, ...languageFilter(language), ...this.comparableFilter() },
+        queryVector,
+        topK,
+      );
+    } catch (error) {
+      if (isMissingIndexError(error)) {
+        throw error;
+      }
+
+      logger.warn(`Atlas vector search filter failed, filtering results in process: ${error}`);
+    }
+
+    const results = await this.runAtlasSearch(
+      collection,
+      { uid },
+      queryVector,
+      topK * FILTER_CANDIDATE_FACTOR,
+    );
+
+    return results
+      .filter(
+        ({ metadata }) =>
+          this.isComparable(metadata) && (!language || metadata.language === language),
+      )
+      .slice(0, topK);
+  }
+
+  /**
+   * Search by scanning every chunk of the uid and ranking by cosine similarity
+   */
+  private async localSearch(
+    collection: Collection<RAGDocument>,
+    uid: string,
+    queryVector: number[],
+    topK: number,
+    language?: string,
+  ): Promise<KnowledgeSearchResult[]> {
+    const cursor = collection.find(
+      { uid, ...languageFilter(language), ...this.comparableFilter() },
+      { projection: { _id: 0, uuid: 1, content: 1, embedding: 1, created_at: 1, metadata: 1 } },
+    );
+
+    const top: KnowledgeSearchResult[] = [];
+
+    for await (const document of cursor) {
+      // Chunks stored before the model was recorded are compared when the dimension matches
+      if (document.embedding.length !== queryVector.length) {
+        continue;
+      }
+
+      const score = cosineSimilarity(queryVector, document.embedding);
+
+      if (top.length < topK || score > top[top.length - 1].score) {
+        top.push({
+          uuid: document.uuid,
+          content: document.content,
+          score,
+          created_at: document.created_at,
+          metadata: document.metadata,
+        });
+        top.sort((a, b) => b.score - a.score);
+
+        if (top.length > topK) {
+          top.pop();
+        }
+      }
+    }
+
+    return top;
+  }
+
+  /**
+   * Search with the in-process HNSW index, then load the matched chunks
+   * Chunks deleted by another replica since the index was loaded rebuild it once.
+   * The index holds every language, so language-filtered queries fetch extra candidates.
+   */
+  private async annSearch(
+    collection: Collection<RAGDocument>,
+    uid: string,
+    queryVector: number[],
+    topK: number,
+    language?: string,
+  ): Promise<KnowledgeSearchResult[]> {
+    const vectorIndex = this.vectorIndex!;
+
+    for (let attempt = 0; ; attempt++) {
+      const matches = await vectorIndex.search({
+        uid,
+        vector: queryVector,
+        model: this.embeddings.model,
+        topK: language ? topK * FILTER_CANDIDATE_FACTOR : topK,
+      });
+      const documents = await collection
+        .find(
+          { uid, uuid: { $in: matches.map(({ id }) => id) } },
+          { projection: { _id: 0, uuid: 1, content: 1, created_at: 1, metadata: 1 } },
+        )
+        .toArray();
+
+      if (documents.length < matches.length && attempt === 0) {
+        await vectorIndex.invalidate(uid);
+        continue;
+      }
+
+      const byUuid = new Map(documents.map((document) => [document.uuid, document]));
+
+      return matches
+        .flatMap(({ id, score }) => {
+          const document = byUuid.get(id);
+
+          return document && (!language || document.metadata.language === language)
+            ? [
+                {
+                  uuid: document.uuid,
+                  content: document.content,
+                  score,
+                  created_at: document.created_at,
+                  metadata: document.metadata,
+                },
+              ]
+            : [];
+        })
+        .slice(0, topK);
+    }
+  }
+
+  /**
+   * Search with the vector search that does not need Atlas: the in-process index
+   * when one is configured, otherwise an exact scan
+   */
+  private async fallbackSearch(
+    collection: Collection<RAGDocument>,
+    uid: string,
+    queryVector: number[],
+    topK: number,
+    language?: string,
+  ): Promise<KnowledgeSearchResult[]> {
+    return this.vectorIndex
+      ? this.annSearch(collection, uid, queryVector, topK, language)
+      : this.localSearch(collection, uid, queryVector, topK, language);
+  }
+
+  /**
+   * Search with the MongoDB text index on `content`
+   */
+  private async textSearch(
+    collection: Collection<RAGDocument>,
+    uid: string,
+    query: string,
+    topK: number,
+    language?: string,
+  ): Promise<KnowledgeSearchResult[]> {
+    return collection
+      .find<KnowledgeSearchResult>(
+        { uid, ...languageFilter(language), $text: { $search: query } },
+        {
+          projection: {
+            _id: 0,
+            uuid: 1,
+            content: 1,
+            created_at: 1,
+            metadata: 1,
+            score: { $meta: 'textScore' },
+          },
+        },
+      )
+      .sort({ score: { $meta: 'textScore' } })
+      .limit(topK)
+      .toArray();
+  }
+
+  /**
+   * Keyword search by scanning every chunk of the uid
+   * Scores with BM25-style term saturation and inverse document frequency
+   */
+  private async localKeywordSearch(
+    collection: Collection<RAGDocument>,
+    uid: string,
+    query: string,
+    topK: number,
+    language?: string,
+  ): Promise<KnowledgeSearchResult[]> {
+    const terms = [...new Set(keywordTerms(query))];
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const cursor = collection.find(
+      { uid, ...languageFilter(language) },
+      { projection: { _id: 0, uuid: 1, content: 1, created_at: 1, metadata: 1 } },
+    );
+
+    const matches: { document: KnowledgeSearchResult; frequencies: number[] }[] = [];
+    const documentFrequency = new Array<number>(terms.length).fill(0);
+    let documents = 0;
+
+    for await (const document of cursor) {
+      documents++;
+      const counts = new Map<string, number>();
+      keywordTerms(document.content).forEach((term) =>
+        counts.set(term, (counts.get(term) ?? 0) + 1),
+      );
+
+      const frequencies = terms.map((term) => counts.get(term) ?? 0);
+      if (frequencies.every((frequency) => frequency === 0)) {
+        continue;
+      }
+
+      frequencies.forEach((frequency, index) => {
+        if (frequency > 0) {
+          documentFrequency[index]++;
+        }
+      });
+      matches.push({ document: { ...document, score: 0 }, frequencies });
+    }
+
+    return matches
+      .map(({ document, frequencies }) => ({
+        ...document,
+        score: frequencies.reduce((score, frequency, index) => {
+          const idf = Math.log(
+            1 + (documents - documentFrequency[index] + 0.5) / (documentFrequency[index] + 0.5),
+          );
+
+          return score + (idf * frequency * 2.2) / (frequency + 1.2);
+        }, 0),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  /**
+   * Return the top-k chunks of a uid matching the query terms
+   */
+  private async keywordSearch(
+    collection: Collection<RAGDocument>,
+    uid: string,
+    query: string,
+    topK: number,
+    language?: string,
+  ): Promise<KnowledgeSearchResult[]> {
+    if (!textIndexUnavailable) {
+      try {
+        return await this.textSearch(collection, uid, query, topK, language);
+      } catch (error) {
+        logger.warn(`Text search failed, falling back to keyword scan: ${error}`);
+        textIndexUnavailable = isMissingIndexError(error);
+      }
+    }
+
+    return this.localKeywordSearch(collection, uid, query, topK, language);
+  }
+
+  /**
+   * Return the top-k chunks of a uid most similar to the query embedding
+   */
+  private async vectorSearch(
+    collection: Collection<RAGDocument>,
+    uid: string,
+    query: string,
+    topK: number,
+    minScore: number,
+    language?: string,
+  ): Promise<KnowledgeSearchResult[]> {
+    const queryVector = await this.createEmbeddings(query);
+    await this.reportStaleChunks(collection, uid);
+
+    let results: KnowledgeSearchResult[];
+
+    if (this.mode === 'hnsw' && !this.vectorIndex) {
+      throw new Error('No vector index is configured for hnsw knowledge search');
+    }
+
+    if (this.mode === 'local') {
+      results = await this.localSearch(collection, uid, queryVector, topK, language);
+    } else if (this.mode === 'hnsw' || (this.mode === 'auto' && atlasUnavailable)) {
+      results = await this.fallbackSearch(collection, uid, queryVector, topK, language);
+    } else {
+      try {
+        results = await this.atlasSearch(collection, uid, queryVector, topK, language);
+      } catch (error) {
+        if (this.mode === 'atlas') {
+          throw error;
+        }
+
+        logger.warn(
+          `Atlas vector search failed, falling back to ` +
+            `${this.vectorIndex ? 'in-process index' : 'local scan'}: ${error}`,
+        );
+        // Only a missing index sends later searches to the fallback; other errors
+        // affect this query alone
+        atlasUnavailable = isMissingIndexError(error);
+        results = await this.fallbackSearch(collection, uid, queryVector, topK, language);
+      }
+    }
+
+    return results.filter((result) => result.score >= minScore);
+  }
+
+  /**
+   * Retrieve the top-k chunks of a uid with the given retrieval mode
+   * In hybrid mode both retrievers fetch extra candidates, which are merged with
+   * reciprocal rank fusion; every result lists the retrievers that matched it
+   */
+  private async retrieve(
+    collection: Collection<RAGDocument>,
+    { uid, query, topK, minScore, mode, weights, rrfK, language }: RetrievalQuery,
+  ): Promise<KnowledgeSearchResult[]> {
+    if (mode === 'vector' || mode === 'keyword') {
+      const results =
+        mode === 'vector'
+          ? await this.vectorSearch(collection, uid, query, topK, minScore, language)
+          : await this.keywordSearch(collection, uid, query, topK, language);
+
+      return results.map((result, index) => ({
+        ...result,
+        retrievers: [mode],
+        ranks: { [mode]: index + 1 },
+      }));
+    }
+
+    const candidates = topK * HYBRID_CANDIDATE_FACTOR;
+    const [vectorResults, keywordResults] = await Promise.all([
+      this.vectorSearch(collection, uid, query, candidates, minScore, language),
+      this.keywordSearch(collection, uid, query, candidates, language),
+    ]);
+
+    return reciprocalRankFusion(
+      [
+        { retriever: 'vector', results: vectorResults, weight: weights.vector ?? 1 },
+        { retriever: 'keyword', results: keywordResults, weight: weights.keyword ?? 1 },
+      ],
+      rrfK,
+    ).slice(0, topK);
+  }
+
+  /**
+   * Return the top-k chunks of a uid most relevant to the query
+   * With rerank set, extra candidates are retrieved and the reranker picks the top-k;
+   * with language set, only chunks of sources detected in that language are returned
+   */
+  async search({
+    uid,
+    query,
+    topK = 5,
+    minScore = 0,
+    mode = this.retrievalMode,
+    weights = {},
+    rrfK = DEFAULT_RRF_K,
+    rerank = false,
+    language,
+  }: KnowledgeSearchQuery): Promise<KnowledgeSearchResult[]> {
+    if (rerank && !this.reranker) {
+      throw new Error('Reranking is not configured for knowledge search');
+    }
+
+    const collection = await this.getCollection();
+    const results = await this.retrieve(collection, {
+      uid,
+      query,
+      topK: rerank ? topK * RERANK_CANDIDATE_FACTOR : topK,
+      minScore,
+      mode,
+      weights,
+      rrfK,
+      rerank,
+      language,
+    });
+
+    if (!rerank || !this.reranker) {
+      return results;
+    }
+
+    return this.reranker.rerank(query, results, { topN: topK });
+  }
+}
+
+/**
+ * Create a KnowledgeSearch configured from environment variables
+ * Uses the same embedding provider as the knowledge ingestion routes unless another
+ * one is given, e.g. to evaluate knowledge embedded with another model
+ */
+export function createKnowledgeSearch(
+  embeddingProvider: EmbeddingProvider = createEmbeddingProvider(),
+): KnowledgeSearch {
+  return new KnowledgeSearch({
+    databaseName: process.env.DATABASE_NAME || 'nfa',
+    collectionName: process.env.DATABASE_COLLECTION || 'knowledges',
+    embeddingProvider,
+    vectorIndexName: process.env.KNOWLEDGE_VECTOR_INDEX || 'vector_index',
+    mode: (process.env.KNOWLEDGE_SEARCH_MODE as VectorSearchMode) || 'auto',
+    vectorIndex: getKnowledgeVectorIndex(),
+    retrievalMode: (process.env.KNOWLEDGE_RETRIEVAL_MODE as RetrievalMode) || 'vector',
+    reranker: getKnowledgeReranker(),
+  });
+}
@@ -0,0 +1,394 @@
+/**
+ * Knowledge Sources
+ * Tracks the files and URLs that knowledge chunks were extracted from
+ *
+ * Features:
+ * - Source records with type, size, content hash and ingestion time
+ * - Listing and lookup of the sources of a uid
+ * - Chunk inspection per source, and paging through all chunks of a uid with a text filter
+ * - Chunk streaming per uid, for knowledge bundle exports
+ * - Refresh schedules of URL sources
+ */
+import { createHash } from 'crypto';
+import { Collection, Db, Filter, FindCursor, ObjectId, UpdateFilter, WithId } from 'mongodb';
+
+import { connectToDatabase, getClient } from '../config';
+import { KnowledgeSource, KnowledgeSourceRefresh } from '../models';
+import { createScopedLogger } from '../utils';
+import { RAGDocument } from './ragBuilder';
+
+const logger = createScopedLogger('services/knowledgeSources');
+
+interface KnowledgeSourceStoreOptions {
+  databaseName?: string;
+  sourcesCollectionName?: string;
+  chunksCollectionName?: string;
+}
+
+export type NewKnowledgeSource = Omit<KnowledgeSource, '_id' | 'ingestedAt' | 'updatedAt'>;
+
+export type SourceChunk = Omit<RAGDocument, 'embedding'>;
+
+export interface ListChunksOptions {
+  limit?: number;
+  offset?: number;
+  query?: string; // Case-insensitive text the chunk content must contain
+  sourceId?: string;
+}
+
+/**
+ * SHA-256 hex digest of file bytes or text
+ */
+export function hashContent(content: Buffer | string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export class KnowledgeSourceStore {
+  private databaseName: string;
+  private sourcesCollectionName: string;
+  private chunksCollectionName: string;
+
+  constructor(options: KnowledgeSourceStoreOptions = {}) {
+    this.databaseName = options.databaseName ?? 'nfa';
+    this.sourcesCollectionName = options.sourcesCollectionName ?? 'knowledge_sources';
+    this.chunksCollectionName = options.chunksCollectionName ?? 'knowledges';
+  }
+
+  private async getDb(): Promise<Db> {
+    // Ensure database is connected
+    await connectToDatabase();
+
+    return getClient().db(this.databaseName);
+  }
+
+  /**
+   * Get or create the sources collection
+   */
+  private async getCollection(): Promise<Collection<KnowledgeSource>> {
+    const db = await this.getDb();
+    const collection = db.collection<KnowledgeSource>(this.sourcesCollectionName);
+
+    // Create indexes
+    try {
+      const indexes = await collection.listIndexes().toArray();
+      const indexNames = indexes.map((idx) => idx.name);
+
+      if (!indexNames.includes('uid_1_ingestedAt_-1')) {
+        await collection.createIndex({ uid: 1, ingestedAt: -1 });
+      }
+
+      if (!indexNames.includes('refresh.schedule_1')) {
+        await collection.createIndex({ 'refresh.schedule': 1 }, { sparse: true });
+      }
+    } catch (error) {
+      logger.warn(`Could not create indexes: ${error}`);
+    }
+
+    return collection;
+  }
+
+  /**
+   * Create a source record
+   */
+  async createSource(source: NewKnowledgeSource): Promise<WithId<KnowledgeSource>> {
+    const collection = await this.getCollection();
+    const now = new Date();
+    const record: KnowledgeSource = { ...source, ingestedAt: now, updatedAt: now };
+    const result = await collection.insertOne(record);
+
+    return { ...record, _id: result.insertedId };
+  }
+
+  /**
+   * Update fields of a source record
+   */
+  async updateSource(
+    sourceId: ObjectId,
+    update: Partial<NewKnowledgeSource>,
+  ): Promise<WithId<KnowledgeSource> | null> {
+    const collection = await this.getCollection();
+
+    return collection.findOneAndUpdate(
+      { _id: sourceId },
+      { $set: { ...update, updatedAt: new Date() } },
+      { returnDocument: 'after' },
+    );
+  }
+
+  /**
+   * List the sources of a uid, most recent first
+   */
+  async listSources(uid: string): Promise<WithId<KnowledgeSource>[]> {
+    const collection = await this.getCollection();
+
+    return collection.find({ uid }).sort({ ingestedAt: -1 }).toArray();
+  }
+
+  /**
+   * Get a single source of a uid
+   */
+  async getSource(uid: string, sourceId: string): Promise<WithId<KnowledgeSource> | null> {
+    if (!ObjectId.isValid(sourceId)) {
+      return null;
+    }
+
+    const collection = await this.getCollection();
+
+    return collection.findOne({ _id: new ObjectId(sourceId), uid });
+  }
+
+  /**
+   * Set or remove the refresh schedule of a source
+   * The status of earlier fetches is kept when the schedule changes
+   */
+  async setRefresh(
+    uid: string,
+    sourceId: string,
+    refresh: Pick<KnowledgeSourceRefresh, 'schedule' | 'timezone'> | null,
+  ): Promise<WithId<KnowledgeSource> | null> {
+    if (!ObjectId.isValid(sourceId)) {
+      return null;
+    }
+
+    const collection = await this.getCollection();
+    const now = new Date();
+    const update: UpdateFilter<KnowledgeSource> = refresh
+      ? {
+          $set: {
+            'refresh.schedule': refresh.schedule,
+            ...(refresh.timezone && { 'refresh.timezone': refresh.timezone }),
+            updatedAt: now,
+          },
+          ...(!refresh.timezone && { $unset: { 'refresh.timezone': '' } }),
+        }
+      : { $set: { updatedAt: now }, $unset: { refresh: '' } };
+
+    return collection.findOneAndUpdate({ _id: new ObjectId(sourceId), uid }, update, {
+      returnDocument: 'after',
+    });
+  }
+
+  /**
+   * Record the outcome of a scheduled fetch on a source that still has a schedule
+   */
+  async updateRefreshStatus(
+    sourceId: ObjectId,
+    status: Omit<KnowledgeSourceRefresh, 'schedule' | 'timezone'>,
+  ): Promise<void> {
+    const collection = await this.getCollection();
+    const fields = Object.fromEntries(
+      Object.entries(status).map(([key, value]) => [`refresh.${key}`, value]),
+    );
+
+    await collection.updateOne(
+      { _id: sourceId, 'refresh.schedule': { $exists: true } },
+      { $set: fields },
+    );
+  }
+
+  /**
+   * List the sources that have a refresh schedule, leaving out data staged by running jobs
+   */
+  async listScheduledSources(): Promise<WithId<KnowledgeSource>[]> {
+    const collection = await this.getCollection();
+    const sources = await collection.find({ 'refresh.schedule': { $exists: true } }).toArray();
+
+    // Staged data lives under "<uid>:<purpose>:<id>"
+    return sources.filter((source) => !source.uid.includes(':'));
+  }
+
+  /**
+   * List the uuids of the chunks extracted from a source
+   */
+  async listSourceChunkUuids(uid: string, sourceId: string): Promise<string[]> {
+    const db = await this.getDb();
+
+    return db
+      .collection<RAGDocument>(this.chunksCollectionName)
+      .distinct('uuid', { uid, 'metadata.source_id': sourceId });
+  }
+
+  /**
+   * Get the chunks extracted from a source, in ingestion order, without embeddings
+   */
+  async getSourceChunks(
+    uid: string,
+    sourceId: string,
+    { limit = 100, offset = 0 }: { limit?: number; offset?: number } = {},
+  ): Promise<{ chunks: SourceChunk[]; total: number }> {
+    const db = await this.getDb();
+    const chunks = db.collection<RAGDocument>(this.chunksCollectionName);
+    const filter = { uid, 'metadata.source_id': sourceId };
+
+    const [items, total] = await Promise.all([
+      chunks
+        .find(filter, { projection: { _id: 0, embedding: 0 } })
+        .sort({ 'metadata.index': 1 })
+        .skip(offset)
+        .limit(limit)
+        .toArray(),
+      chunks.countDocuments(filter),
+    ]);
+
+    return { chunks: items, total };
+  }
+
+  /**
+   * Page through the chunks of a uid, grouped by source and in ingestion order,
+   * without embeddings. Chunks added by hand have no source and come first.
+   */
+  async listChunks(
+    uid: string,
+    { limit = 100, offset = 0, query, sourceId }: ListChunksOptions = {},
+  ): Promise<{ chunks: SourceChunk[]; total: number }> {
+    const db = await this.getDb();
+    const chunks = db.collection<RAGDocument>(this.chunksCollectionName);
+    const filter: Filter<RAGDocument> = {
+      uid,
+      ...(sourceId && { 'metadata.source_id': sourceId }),
+      // Match the text literally, not as a pattern
+      ...(query && {
+        content: { $regex: query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' },
+      }),
+    };
+
+    const [items, total] = await Promise.all([
+      chunks
+        .find(filter, { projection: { _id: 0, embedding: 0 } })
+        .sort({ 'metadata.source_id': 1, 'metadata.index': 1, uuid: 1 })
+        .skip(offset)
+        .limit(limit)
+        .toArray(),
+      chunks.countDocuments(filter),
+    ]);
+
+    return { chunks: items, total };
+  }
+
+  /**
+   * Get a single chunk of a uid without its embedding
+   */
+  async getChunk(uid: string, uuid: string): Promise<SourceChunk | null> {
+    const db = await this.getDb();
+
+    return db
+      .collection<RAGDocument>(this.chunksCollectionName)
+      .findOne({ uid, uuid }, { projection: { _id: 0, embedding: 0 } });
+  }
+
+  /**
+   * Stream all chunks of a uid, grouped by source and in ingestion order
+   * Embeddings are left out unless requested
+   */
+  async streamChunks(
+    uid: string,
+    { includeEmbeddings = false }: { includeEmbeddings?: boolean } = {},
+  ): Promise<FindCursor<RAGDocument | SourceChunk>> {
+    const db = await this.getDb();
+    const chunks = db.collection<RAGDocument>(this.chunksCollectionName);
+
+    return chunks
+      .find(
+        { uid },
+        { projection: includeEmbeddings ? { _id: 0, uid: 0 } : { _id: 0, uid: 0, embedding: 0 } },
+      )
+      .sort({ 'metadata.source_id': 1, 'metadata.index': 1 });
+  }
+
+  /**
+   * Count the chunks of a uid
+   */
+  async countChunks(uid: string): Promise<number> {
+    const db = await this.getDb();
+
+    return db.collection<RAGDocument>(this.chunksCollectionName).countDocuments({ uid });
+  }
+
+  /**
+   * List the uids that have chunks, leaving out data staged by running jobs
+   */
+  async listChunkUids(): Promise<string[]> {
+    const db = await this.getDb();
+    const uids = await db.collection<RAGDocument>(this.chunksCollectionName).distinct('uid');
+
+    // Staged data lives under "<uid>:<purpose>:<id>"
+    return uids.filter((uid): uid is string => typeof uid === 'string' && !uid.includes(':'));
+  }
+
+  /**
+   * List the chunks of a uid that are not linked to a source (uuid and content only)
+   */
+  async listUnsourcedChunks(uid: string): Promise<Pick<RAGDocument, 'uuid' | 'content'>[]> {
+    const db = await this.getDb();
+
+    return db
+      .collection<RAGDocument>(this.chunksCollectionName)
+      .find(
+        { uid, 'metadata.source_id': { $exists: false } },
+        { projection: { _id: 0, uuid: 1, content: 1 } },
+      )
+      .toArray();
+  }
+
+  /**
+   * Change the chunk count of a source record, e.g. after a chunk was deleted by hand
+   */
+  async adjustChunkCount(uid: string, sourceId: string, delta: number): Promise<void> {
+    if (!ObjectId.isValid(sourceId)) {
+      return;
+    }
+
+    const collection = await this.getCollection();
+    await collection.updateOne(
+      { _id: new ObjectId(sourceId), uid },
+      { $inc: { chunkCount: delta }, $set: { updatedAt: new Date() } },
+    );
+  }
+
+  /**
+   * Delete a source record
+   */
+  async deleteSource(uid: string, sourceId: string): Promise<boolean> {
+    if (!ObjectId.isValid(sourceId)) {
+      return false;
+    }
+
+    const collection = await this.getCollection();
+    const result = await collection.deleteOne({ _id: new ObjectId(sourceId), uid });
+
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Move all source records of one uid to another uid
+   */
+  async reassignUid(fromUid: string, toUid: string): Promise<number> {
+    const collection = await this.getCollection();
+    const result = await collection.updateMany(
+      { uid: fromUid },
+      { $set: { uid: toUid, updatedAt: new Date() } },
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Delete all source records of a uid
+   */
+  async deleteByUid(uid: string): Promise<number> {
+    const collection = await this.getCollection();
+    const result = await collection.deleteMany({ uid });
+
+    return result.deletedCount;
+  }
+}
+
+/**
+ * Create a KnowledgeSourceStore configured from environment variables
+ */
+export function createKnowledgeSourceStore(): KnowledgeSourceStore {
+  return new KnowledgeSourceStore({
+    databaseName: process.env.DATABASE_NAME || 'nfa',
+    chunksCollectionName: process.env.DATABASE_COLLECTION || 'knowledges',
+  });
+}
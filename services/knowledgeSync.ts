@@ -0,0 +1,315 @@
+/**
+ * Knowledge Sync
+ * Incrementally re-syncs the knowledge of a character with its knowledge list
+ *
+ * Features:
+ * - Content hash diff against the sources created by earlier syncs
+ * - Only new or changed items are embedded
+ * - Dropped items are removed; uploaded, scraped and imported sources are never touched
+ * - New data is staged under a temporary uid and switched over at the end, in a
+ *   transaction where MongoDB supports one, so a failed run never leaves the agent
+ *   without knowledge and readers do not see old and new chunks side by side
+ */
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+import { WithId } from 'mongodb';
+
+import { KnowledgeSource, KnowledgeSourceType } from '../models';
+import { createScopedLogger } from '../utils';
+import { ChunkingConfig } from './chunker';
+import { ParsedSegment, SUPPORTED_FILE_FORMATS, fileParser } from './fileParser';
+import { ingestText } from './knowledgeIngestion';
+import { KnowledgeSourceStore, hashContent } from './knowledgeSources';
+import { RAGBuilder } from './ragBuilder';
+import { RedactionCounts, RedactionPolicy, sameRedactionPolicy } from './redaction';
+import { WebScraper } from './webScraper';
+
+const logger = createScopedLogger('services/knowledgeSync');
+
+// Character knowledge item types that are fetched and parsed as files
+export const CHARACTER_FILE_TYPES = SUPPORTED_FILE_FORMATS;
+
+export interface CharacterKnowledgeItem {
+  type: string;
+  name: string;
+  value: string;
+}
+
+export type SyncItemStatus = 'added' | 'updated' | 'unchanged' | 'skipped' | 'failed';
+
+export interface SyncItemResult {
+  type: string;
+  name: string;
+  status: SyncItemStatus;
+  sourceId?: string;
+  documentsCreated?: number;
+  failedIndices?: number[];
+  redactions?: RedactionCounts;
+  error?: string;
+}
+
+export interface SyncResult {
+  items: SyncItemResult[];
+  removedSources: { id: string; name: string; chunksDeleted: number }[];
+  documentsCreated: number;
+}
+
+export type SyncItemPhase = 'parsing' | 'embedding';
+
+interface SyncOptions {
+  uid: string;
+  items: CharacterKnowledgeItem[];
+  chunking: ChunkingConfig;
+  redaction?: RedactionPolicy;
+  sources: KnowledgeSourceStore;
+  createBuilder: (uid: string) => RAGBuilder;
+  stagingId?: string; // Stable id for the staged data, so an interrupted run can be cleaned up
+  onPhase?: (index: number, phase: SyncItemPhase) => Promise<void>;
+  onItemResult?: (index: number, result: SyncItemResult) => Promise<void>;
+}
+
+interface FetchedItem {
+  item: CharacterKnowledgeItem;
+  type: KnowledgeSourceType;
+  format: string;
+  size: number;
+  contentHash: string;
+  text: string;
+  segments?: ParsedSegment[];
+}
+
+/**
+ * Whether a stored source was chunked with the given configuration
+ */
+function sameChunking(source: KnowledgeSource, chunking: ChunkingConfig): boolean {
+  return (
+    source.chunking?.strategy === chunking.strategy &&
+    source.chunking?.params.chunkSize === chunking.params.chunkSize &&
+    source.chunking?.params.chunkOverlap === chunking.params.chunkOverlap
+  );
+}
+
+/**
+ * Whether a stored source was redacted with the given policy
+ */
+function sameRedaction(source: KnowledgeSource, redaction: RedactionPolicy | undefined): boolean {
+  return redaction ? sameRedactionPolicy(source.redaction, redaction) : !source.redaction;
+}
+
+/**
+ * Fetch a knowledge item and extract its text
+ * Returns null for item types that cannot be ingested
+ */
+async function fetchItem(item: CharacterKnowledgeItem): Promise<FetchedItem | null> {
+  if (item.type === 'url') {
+    const scraper = new WebScraper({ urls: [item.value] });
+    await scraper.scrape();
+    const text = scraper.getContent();
+
+    if (text.trim().length === 0) {
+      throw new Error(scraper.getFailureReason());
+    }
+
+    return {
+      item,
+      type: 'url',
+      format: 'html',
+      size: Buffer.byteLength(text),
+      contentHash: hashContent(text),
+      text,
+    };
+  }
+
+  if (CHARACTER_FILE_TYPES.includes(item.type)) {
+    // Process file from S3 URL
+    const response = await axios.get(item.value, { responseType: 'arraybuffer' });
+    const buffer = Buffer.from(response.data);
+    // The item type names the format; the name may not carry the extension
+    const filename = item.name.toLowerCase().endsWith(`.${item.type}`)
+      ? item.name
+      : `${item.name}.${item.type}`;
+    const { text, segments } = await fileParser.parseDocument(buffer, filename);
+
+    if (text.trim().length === 0) {
+      throw new Error('No text content could be extracted from the file');
+    }
+
+    return {
+      item,
+      type: 'file',
+      format: item.type,
+      size: buffer.length,
+      contentHash: hashContent(buffer),
+      text,
+      segments,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Re-sync the knowledge of a uid with a character knowledge list
+ *
+ * Items are matched to stored sources by content hash. Items that fail to fetch
+ * keep their previously stored version (matched by origin URL). Sources that
+ * no item maps to anymore are removed once the new data has been switched in.
+ */
+export async function syncCharacterKnowledge({
+  uid,
+  items,
+  chunking,
+  redaction,
+  sources,
+  createBuilder,
+  stagingId = randomUUID(),
+  onPhase,
+  onItemResult,
+}: SyncOptions): Promise<SyncResult> {
+  const stagingUid = `${uid}:staging:${stagingId}`;
+  const stagingBuilder = createBuilder(stagingUid);
+
+  // Discard anything left staged by an interrupted run with the same id
+  await stagingBuilder.cleanupByUid(stagingUid);
+  await sources.deleteByUid(stagingUid);
+
+  // Sources added to the same uid by uploads, scrapes or imports are not synced
+  const existing = (await sources.listSources(uid)).filter(
+    (source) => source.managedBy === 'character',
+  );
+  const retained = new Set<string>();
+  const results: SyncItemResult[] = new Array(items.length);
+  const pending: { index: number; fetched: FetchedItem }[] = [];
+
+  const retain = (source: WithId<KnowledgeSource>) => retained.add(source._id.toString());
+
+  const report = async (index: number, result: SyncItemResult) => {
+    results[index] = result;
+    await onItemResult?.(index, result);
+  };
+
+  // Fetch every item and diff it against the stored sources
+  for (let index = 0; index < items.length; index++) {
+    const item = items[index];
+    const { type, name, value } = item;
+
+    try {
+      await onPhase?.(index, 'parsing');
+      const fetched = await fetchItem(item);
+
+      if (!fetched) {
+        await report(index, { type, name, status: 'skipped', error: `Unsupported type: ${type}` });
+        continue;
+      }
+
+      const match = existing.find(
+        (source) =>
+          !retained.has(source._id.toString()) &&
+          source.contentHash === fetched.contentHash &&
+          sameChunking(source, chunking) &&
+          sameRedaction(source, redaction),
+      );
+
+      if (match) {
+        retain(match);
+        await report(index, { type, name, status: 'unchanged', sourceId: match._id.toString() });
+      } else {
+        pending.push({ index, fetched });
+      }
+    } catch (error) {
+      logger.error(`Error fetching ${name}:`, error);
+
+      // Keep the previous version of an item that could not be fetched
+      existing.filter((source) => source.origin === value).forEach(retain);
+      await report(index, {
+        type,
+        name,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Embed new and changed items under the staging uid so they stay invisible
+  // until the switch-over
+  let documentsCreated = 0;
+
+  for (const { index, fetched } of pending) {
+    const { type, name, value } = fetched.item;
+    const previous = existing.find((source) => source.origin === value);
+
+    try {
+      await onPhase?.(index, 'embedding');
+      const { source, summary, redactions } = await ingestText(stagingBuilder, sources, {
+        uid: stagingUid,
+        type: fetched.type,
+        name: fetched.type === 'url' ? value : name,
+        origin: value,
+        managedBy: 'character',
+        format: fetched.format,
+        size: fetched.size,
+        contentHash: fetched.contentHash,
+        text: fetched.text,
+        segments: fetched.segments,
+        chunking,
+        redaction,
+      });
+
+      if (!source) {
+        throw new Error('No chunks could be embedded');
+      }
+
+      documentsCreated += summary.inserted;
+      await report(index, {
+        type,
+        name,
+        status: previous ? 'updated' : 'added',
+        sourceId: source._id.toString(),
+        documentsCreated: summary.inserted,
+        ...(summary.failedIndices.length > 0 && { failedIndices: summary.failedIndices }),
+        redactions,
+      });
+    } catch (error) {
+      logger.error(`Error embedding ${name}:`, error);
+
+      // Keep the previous version of an item that could not be embedded
+      if (previous) {
+        retain(previous);
+      }
+
+      await report(index, {
+        type,
+        name,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Switch over: publish the staged chunks and delete the chunks of dropped or replaced
+  // sources in one step, then move the source records along
+  const dropped = existing.filter((source) => !retained.has(source._id.toString()));
+  const droppedUuids = new Map<string, string[]>();
+
+  for (const source of dropped) {
+    const sourceId = source._id.toString();
+    droppedUuids.set(sourceId, await sources.listSourceChunkUuids(uid, sourceId));
+  }
+
+  await stagingBuilder.replaceWithStaged(stagingUid, uid, [...droppedUuids.values()].flat());
+  await sources.reassignUid(stagingUid, uid);
+
+  const removedSources: SyncResult['removedSources'] = [];
+
+  for (const source of dropped) {
+    const sourceId = source._id.toString();
+    await sources.deleteSource(uid, sourceId);
+    removedSources.push({
+      id: sourceId,
+      name: source.name,
+      chunksDeleted: droppedUuids.get(sourceId)!.length,
+    });
+  }
+
+  return { items: results, removedSources, documentsCreated };
+}
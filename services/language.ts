@@ -0,0 +1,106 @@
+/**
+ * Language Detection
+ * Identifies the main language of a document so it can be tokenized with the
+ * rules of that language and filtered by language at retrieval time
+ *
+ * Features:
+ * - Script detection for Japanese, Chinese, Korean, Thai, Cyrillic, Greek,
+ *   Arabic, Hebrew and Devanagari text
+ * - Stopword profiles for Latin-script languages (en, es, fr, de, pt, it, nl)
+ * - ISO 639-1 codes, or "und" when the language cannot be determined
+ */
+
+export const UNDETERMINED_LANGUAGE = 'und';
+
+// Languages written without spaces between words
+export const SPACELESS_LANGUAGES = ['ja', 'zh', 'th'];
+
+// Characters sampled from a document; the start of a document is representative enough
+const DETECTION_SAMPLE_SIZE = 20000;
+
+// Minimum stopword hits for a Latin-script language to be reported
+const MIN_STOPWORD_HITS = 3;
+
+// Frequent function words per language, space separated
+const STOPWORDS: Record<string, string> = {
+  en: 'the and of to is in that it for with you are this on be your not have we can',
+  es: 'el la de que y en los las por con para una es del se su al como más pero',
+  fr: 'le la les de des et est en que une pour dans qui pas sur du au vous avec sont',
+  de: 'der die das und ist nicht mit ein eine zu den von für auf sie ich dem auch sich wir',
+  pt: 'o os de que e em um uma para com não por do da se mais são você na no',
+  it: 'il di che e un una per non con sono del della gli le è si più questo anche nel',
+  nl: 'de het een en van is dat niet op te met voor zijn die ook je aan wij er maar',
+};
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(
+  ([language, words]) => [language, new Set(words.split(' '))] as const,
+);
+
+// Scripts that identify a language on their own, checked by letter count
+const SCRIPT_LANGUAGES: { language: string; pattern: RegExp }[] = [
+  { language: 'ko', pattern: /\p{Script=Hangul}/gu },
+  { language: 'th', pattern: /\p{Script=Thai}/gu },
+  { language: 'el', pattern: /\p{Script=Greek}/gu },
+  { language: 'ar', pattern: /\p{Script=Arabic}/gu },
+  { language: 'he', pattern: /\p{Script=Hebrew}/gu },
+  { language: 'hi', pattern: /\p{Script=Devanagari}/gu },
+];
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Detect the main language of a text
+ * Returns an ISO 639-1 code, or "und" for short or unrecognized text
+ */
+export function detectLanguage(text: string): string {
+  const sample = text.slice(0, DETECTION_SAMPLE_SIZE);
+  const letters = countMatches(sample, /\p{L}/gu);
+
+  if (letters === 0) {
+    return UNDETERMINED_LANGUAGE;
+  }
+
+  // Japanese mixes kana with Han characters; Chinese uses Han alone
+  const kana = countMatches(sample, /[\p{Script=Hiragana}\p{Script=Katakana}]/gu);
+  const han = countMatches(sample, /\p{Script=Han}/gu);
+
+  if ((kana + han) / letters > 0.3) {
+    return kana > 0 && kana / (kana + han) > 0.05 ? 'ja' : 'zh';
+  }
+
+  for (const { language, pattern } of SCRIPT_LANGUAGES) {
+    if (countMatches(sample, pattern) / letters > 0.3) {
+      return language;
+    }
+  }
+
+  const cyrillic = countMatches(sample, /\p{Script=Cyrillic}/gu);
+
+  if (cyrillic / letters > 0.3) {
+    return /[іїєґ]/iu.test(sample) ? 'uk' : 'ru';
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) ?? [];
+  let best = UNDETERMINED_LANGUAGE;
+  let bestHits = MIN_STOPWORD_HITS - 1;
+
+  for (const [language, stopwords] of STOPWORD_SETS) {
+    const hits = words.filter((word) => stopwords.has(word)).length;
+
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Whether a language is written without spaces between words
+ */
+export function isSpacelessLanguage(language: string): boolean {
+  return SPACELESS_LANGUAGES.includes(language);
+}
@@ -0,0 +1,86 @@
+/**
+ * Leader Lock
+ * Lease-based lock in MongoDB that elects one replica to run work that must not
+ * run on several replicas at the same time
+ *
+ * Features:
+ * - Acquiring and renewing the lease is a single atomic upsert
+ * - Another replica takes over once the holder stops renewing and the lease expires
+ */
+import { randomUUID } from 'crypto';
+import { Collection, Db, MongoServerError } from 'mongodb';
+
+import { connectToDatabase, getClient } from '../config';
+
+// Server error code for a duplicate key, raised when another replica holds the lease
+const DUPLICATE_KEY = 11000;
+
+interface LeaderLockOptions {
+  name: string;
+  databaseName?: string;
+  collectionName?: string;
+  ttlMs?: number; // Lease duration; the holder must renew well within it
+}
+
+interface LockDocument {
+  _id: string;
+  holder: string;
+  expiresAt: Date;
+}
+
+export class LeaderLock {
+  private name: string;
+  private databaseName: string;
+  private collectionName: string;
+  private ttlMs: number;
+  private holder: string;
+
+  constructor(options: LeaderLockOptions) {
+    this.name = options.name;
+    this.databaseName = options.databaseName ?? 'nfa';
+    this.collectionName = options.collectionName ?? 'locks';
+    this.ttlMs = options.ttlMs ?? 3 * 60 * 1000;
+    this.holder = randomUUID();
+  }
+
+  private async getCollection(): Promise<Collection<LockDocument>> {
+    // Ensure database is connected
+    await connectToDatabase();
+    const db: Db = getClient().db(this.databaseName);
+
+    return db.collection<LockDocument>(this.collectionName);
+  }
+
+  /**
+   * Acquire the lease, or renew it when this process already holds it
+   * Returns false while another process holds an unexpired lease
+   */
+  async acquire(): Promise<boolean> {
+    const collection = await this.getCollection();
+    const now = new Date();
+
+    try {
+      await collection.updateOne(
+        { _id: this.name, $or: [{ holder: this.holder }, { expiresAt: { $lt: now } }] },
+        { $set: { holder: this.holder, expiresAt: new Date(now.getTime() + this.ttlMs) } },
+        { upsert: true },
+      );
+
+      return true;
+    } catch (error) {
+      if (error instanceof MongoServerError && error.code === DUPLICATE_KEY) {
+        return false;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Give up the lease if this process holds it, so another process can take over at once
+   */
+  async release(): Promise<void> {
+    const collection = await this.getCollection();
+    await collection.deleteOne({ _id: this.name, holder: this.holder });
+  }
+}
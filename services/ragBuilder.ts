@@ -4,29 +4,63 @@
  *
  * Features:
  * - MongoDB vector storage
- * - Text chunking with SentenceChunker
- * - OpenAI embeddings generation
+ * - Text chunking with configurable strategies
+ * - Batched, concurrent embeddings generation with retries (pluggable provider)
  * - Content cleaning and filtering
  * - UUID-based paragraph storage
+ * - Single chunk inserts and content updates, for manual knowledge edits
+ * - Keeps the in-process vector index up to date with inserts, updates and deletes
  */
 import { randomUUID } from 'crypto';
 import * as fs from 'fs/promises';
-import { Collection, Db } from 'mongodb';
-import OpenAI from 'openai';
+import { Collection, Db, MongoBulkWriteError, MongoServerError } from 'mongodb';
 
 import { connectToDatabase, getClient } from '../config';
-import { createScopedLogger } from '../utils';
+import { createScopedLogger, mapWithConcurrency, withRetry } from '../utils';
+import { ChunkingConfig } from './chunker';
+import {
+  EmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  createEmbeddingProvider,
+  isRetryableEmbeddingError,
+} from './embeddings';
 import { tokenizeParagraphs } from './tokenizer';
+import { KnowledgeVectorIndex, getKnowledgeVectorIndex } from './vectorIndex';
 
 const logger = createScopedLogger('services/ragBuilder');
 
-interface DocumentMetadata {
+// Server error code for transactions on a standalone MongoDB (no replica set)
+const TRANSACTIONS_UNSUPPORTED = 20;
+
+export interface DocumentMetadata {
   index: number;
   embedding_model: string;
   embedding_dimension: number;
+  chunking?: ChunkingConfig;
+  source_id?: string; // KnowledgeSource the chunk was extracted from
+  source_name?: string; // File name or URL of the source, for citations
+  section?: string; // Heading path within the source, or slide title
+  page?: number;
+  slide?: number; // Slide number within a deck
+  sheet?: string; // Sheet name within a workbook
+  language?: string; // ISO 639-1 code detected for the source, "und" when unknown
+  created_by?: string; // User id of the trainer who added the chunk by hand
+  edited_by?: string; // User id of the last manual edit
+  edited_at?: Date; // Time of the last manual edit
+}
+
+// Metadata supplied by the caller, either per chunk or shared by a whole build
+export type ChunkMetadata = Omit<
+  DocumentMetadata,
+  'index' | 'embedding_model' | 'embedding_dimension'
+>;
+
+export interface TextChunk {
+  content: string;
+  metadata?: ChunkMetadata;
 }
 
-interface RAGDocument {
+export interface RAGDocument {
   uuid: string;
   uid?: string;
   content: string;
@@ -35,34 +69,82 @@ interface RAGDocument {
   metadata: DocumentMetadata;
 }
 
-interface RAGBuilderOptions {
+// Document copied from a knowledge bundle; the embedding may have been left out
+export type ImportedDocument = Omit<RAGDocument, 'uid' | 'embedding'> & { embedding?: number[] };
+
+export interface RAGBuilderOptions {
   mongodbUrl?: string; // Optional - now uses shared client from config/database.ts
   databaseName?: string;
   collectionName?: string;
-  embeddingsDimension?: number;
-  embeddingsModel?: string;
+  embeddingsDimension?: number; // Used when no provider is given
+  embeddingsModel?: string; // Used when no provider is given
+  embeddingProvider?: EmbeddingProvider; // Defaults to OpenAI with the model and dimension above
   uid?: string;
+  batchSize?: number; // Number of texts sent per embeddings request
+  concurrency?: number; // Number of embeddings requests in flight
+  maxRetries?: number; // Retries per request on rate limit and server errors
+  vectorIndex?: KnowledgeVectorIndex; // In-process index to keep up to date, if any
+}
+
+export interface BatchResult {
+  batch: number;
+  start: number;
+  end: number;
+  inserted: number;
+  failedIndices: number[];
+  error?: string;
+}
+
+export interface BuildSummary {
+  total: number;
+  inserted: number;
+  failedIndices: number[];
+  batches: BatchResult[];
+}
+
+export interface ImportSummary {
+  inserted: number;
+  reembedded: number; // Documents embedded again with this builder's provider
+  failed: number;
 }
 
 export class RAGBuilder {
   private databaseName: string;
   private collectionName: string;
-  private embeddingsDimension: number;
-  private embeddingsModel: string;
   private uid: string | undefined;
-  private openai: OpenAI;
+  private batchSize: number;
+  private concurrency: number;
+  private maxRetries: number;
+  private embeddings: EmbeddingProvider;
+  private vectorIndex: KnowledgeVectorIndex | undefined;
 
   constructor(options: RAGBuilderOptions) {
     this.databaseName = options.databaseName ?? 'nfa';
     this.collectionName = options.collectionName ?? 'knowledges';
-    this.embeddingsDimension = options.embeddingsDimension ?? 1536;
-    this.embeddingsModel = options.embeddingsModel ?? 'text-embedding-3-small';
     this.uid = options.uid;
+    this.batchSize = options.batchSize ?? 100;
+    this.concurrency = options.concurrency ?? 4;
+    this.maxRetries = options.maxRetries ?? 5;
+    this.vectorIndex = options.vectorIndex;
+
+    // Retries are handled by createEmbeddings
+    this.embeddings =
+      options.embeddingProvider ??
+      new OpenAIEmbeddingProvider({
+        model: options.embeddingsModel,
+        dimension: options.embeddingsDimension,
+      });
+  }
 
-    // Initialize OpenAI client
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+  /**
+   * Embedding model and dimension recorded on every stored chunk
+   */
+  get embeddingModel(): string {
+    return this.embeddings.model;
+  }
+
+  get embeddingDimension(): number {
+    return this.embeddings.dimension;
   }
 
   /**
@@ -95,6 +177,15 @@ export class RAGBuilder {
       if (!indexNames.includes('uid_1_created_at_-1')) {
         await collection.createIndex({ uid: 1, created_at: -1 });
       }
+
+      if (!indexNames.includes('uid_1_metadata.source_id_1')) {
+        await collection.createIndex({ uid: 1, 'metadata.source_id': 1 });
+      }
+
+      // Keyword retrieval; no language so SKUs and acronyms are not stemmed or dropped
+      if (!indexNames.includes('uid_1_content_text')) {
+        await collection.createIndex({ uid: 1, content: 'text' }, { default_language: 'none' });
+      }
     } catch (error) {
       logger.warn(`Could not create indexes: ${error}`);
     }
@@ -103,80 +194,208 @@ export class RAGBuilder {
   }
 
   /**
-   * Create embeddings for a single text using OpenAI
+   * Create embeddings for a batch of texts with the embedding provider
+   * Retries with exponential backoff on rate limit and server errors
    */
-  private async createEmbeddings(text: string): Promise<number[]> {
-    const response = await this.openai.embeddings.create({
-      input: text,
-      model: this.embeddingsModel,
-      dimensions: this.embeddingsDimension,
+  private async createEmbeddings(texts: string[]): Promise<number[][]> {
+    return withRetry(() => this.embeddings.embed(texts), {
+      retries: this.maxRetries,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+      shouldRetry: isRetryableEmbeddingError,
+      onRetry: (error, attempt, delayMs) =>
+        logger.warn(
+          `Embeddings request failed (attempt ${attempt}), retrying in ${delayMs}ms: ${error}`,
+        ),
     });
+  }
+
+  /**
+   * Create embeddings for a batch, falling back to one request per text when the
+   * batch is rejected so a single bad input does not fail its neighbours
+   */
+  private async embedBatch(texts: string[]): Promise<(number[] | null)[]> {
+    try {
+      return await this.createEmbeddings(texts);
+    } catch (error) {
+      if (texts.length === 1 || isRetryableEmbeddingError(error)) {
+        throw error;
+      }
+
+      logger.warn(`Embeddings batch rejected, retrying texts individually: ${error}`);
 
-    return response.data[0].embedding;
+      // Bounded like the batches, so a rejected batch does not burst into one request per text
+      return mapWithConcurrency(texts, this.concurrency, async (text) => {
+        try {
+          return (await this.createEmbeddings([text]))[0];
+        } catch (itemError) {
+          logger.error(`Error creating embedding: ${itemError}`);
+
+          return null;
+        }
+      });
+    }
   }
 
   /**
-   * Build the RAG database from a list of texts
+   * Add inserted documents to the vector index
    */
-  async buildFromTexts(texts: string[], showProgress: boolean = true): Promise<void> {
-    const collection = await this.getCollection();
+  private async indexInserted(documents: RAGDocument[]): Promise<void> {
+    if (this.uid) {
+      await this.vectorIndex?.add(this.uid, documents);
+    }
+  }
+
+  /**
+   * Drop the vector index partition of this builder's uid after a partial insert,
+   * so it is rebuilt from the stored documents
+   */
+  private async invalidateIndex(): Promise<void> {
+    if (this.uid) {
+      await this.vectorIndex?.invalidate(this.uid);
+    }
+  }
 
-    // // Clear existing documents
-    // await collection.deleteMany({});
-    // logger.log(`Cleared existing documents from ${this.collectionName}`);
+  /**
+   * Embed and insert one batch of chunks
+   */
+  private async processBatch(
+    collection: Collection<RAGDocument>,
+    chunks: TextChunk[],
+    batch: number,
+    start: number,
+    metadata: ChunkMetadata,
+  ): Promise<BatchResult> {
+    const result: BatchResult = {
+      batch,
+      start,
+      end: start + chunks.length,
+      inserted: 0,
+      failedIndices: [],
+    };
+
+    let embeddings: (number[] | null)[];
+    try {
+      embeddings = await this.embedBatch(chunks.map((chunk) => chunk.content));
+    } catch (error) {
+      logger.error(`Error processing batch ${batch}: ${error}`);
 
-    // Filter out empty texts
-    const validTexts = texts.filter((text) => text.trim().length > 0);
+      return {
+        ...result,
+        failedIndices: chunks.map((_chunk, offset) => start + offset),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
 
-    // Generate embeddings and insert into MongoDB
     const documents: RAGDocument[] = [];
-    let processed = 0;
 
-    for (let idx = 0; idx < validTexts.length; idx++) {
-      const text = validTexts[idx];
+    embeddings.forEach((embedding, offset) => {
+      const idx = start + offset;
 
-      try {
-        const embedding = await this.createEmbeddings(text);
-
-        const document: RAGDocument = {
-          uuid: randomUUID(),
-          ...(this.uid && { uid: this.uid }),
-          content: text,
-          embedding,
-          created_at: new Date(),
-          metadata: {
-            index: idx,
-            embedding_model: this.embeddingsModel,
-            embedding_dimension: this.embeddingsDimension,
-          },
-        };
-
-        documents.push(document);
-        processed++;
-
-        if (showProgress && processed % 10 === 0) {
-        }
+      if (!embedding) {
+        result.failedIndices.push(idx);
 
-        // Batch insert every 100 documents
-        if (documents.length >= 100) {
-          await collection.insertMany(documents, { ordered: false });
-          documents.length = 0;
-        }
+        return;
+      }
+
+      documents.push({
+        uuid: randomUUID(),
+        ...(this.uid && { uid: this.uid }),
+        content: chunks[offset].content,
+        embedding,
+        created_at: new Date(),
+        metadata: {
+          ...metadata,
+          ...chunks[offset].metadata,
+          index: idx,
+          embedding_model: this.embeddings.model,
+          embedding_dimension: this.embeddings.dimension,
+        },
+      });
+    });
+
+    if (documents.length > 0) {
+      try {
+        await collection.insertMany(documents, { ordered: false });
+        result.inserted = documents.length;
+        await this.indexInserted(documents);
       } catch (error) {
-        logger.error(`Error processing document ${idx}: ${error}`);
+        logger.error(`Error inserting batch ${batch}: ${error}`);
+        await this.invalidateIndex();
+        result.failedIndices.push(...documents.map((document) => document.metadata.index));
+        result.failedIndices.sort((a, b) => a - b);
+        result.error = error instanceof Error ? error.message : String(error);
       }
     }
 
-    // Insert remaining documents
-    if (documents.length > 0) {
-      await collection.insertMany(documents, { ordered: false });
+    return result;
+  }
+
+  /**
+   * Build the RAG database from a list of chunks
+   * Chunks are embedded in batches with limited parallelism; the returned summary
+   * lists the indices (into the non-empty chunks) that could not be stored
+   */
+  async buildFromChunks(
+    chunks: TextChunk[],
+    showProgress: boolean = true,
+    metadata: ChunkMetadata = {},
+  ): Promise<BuildSummary> {
+    const collection = await this.getCollection();
+
+    // Filter out empty chunks
+    const validChunks = chunks.filter((chunk) => chunk.content.trim().length > 0);
+
+    const batches: TextChunk[][] = [];
+    for (let start = 0; start < validChunks.length; start += this.batchSize) {
+      batches.push(validChunks.slice(start, start + this.batchSize));
     }
+
+    let completed = 0;
+    const results = await mapWithConcurrency(batches, this.concurrency, async (items, batch) => {
+      const result = await this.processBatch(
+        collection,
+        items,
+        batch,
+        batch * this.batchSize,
+        metadata,
+      );
+      completed++;
+
+      if (showProgress) {
+        logger.log(`Processed batch ${completed}/${batches.length}`);
+      }
+
+      return result;
+    });
+
+    return {
+      total: validChunks.length,
+      inserted: results.reduce((sum, result) => sum + result.inserted, 0),
+      failedIndices: results.flatMap((result) => result.failedIndices),
+      batches: results,
+    };
+  }
+
+  /**
+   * Build the RAG database from a list of texts
+   */
+  async buildFromTexts(
+    texts: string[],
+    showProgress: boolean = true,
+    metadata: ChunkMetadata = {},
+  ): Promise<BuildSummary> {
+    return this.buildFromChunks(
+      texts.map((content) => ({ content })),
+      showProgress,
+      metadata,
+    );
   }
 
   /**
    * Build the RAG database from a text file
    */
-  async buildFromFile(filePath: string, showProgress: boolean = true): Promise<void> {
+  async buildFromFile(filePath: string, showProgress: boolean = true): Promise<BuildSummary> {
     // Check if file exists
     try {
       await fs.access(filePath);
@@ -188,7 +407,147 @@ export class RAGBuilder {
     const rawData = await fs.readFile(filePath, 'utf-8');
     const paragraphs = tokenizeParagraphs(rawData);
 
-    await this.buildFromTexts(paragraphs, showProgress);
+    return this.buildFromTexts(paragraphs, showProgress);
+  }
+
+  /**
+   * Store documents copied from a knowledge bundle
+   * Content, creation time and metadata are kept but every document gets a new
+   * uuid, so a bundle can be imported next to the uid it was exported from.
+   * Documents without an embedding, or with one from another model or dimension,
+   * are embedded again with this builder's provider.
+   */
+  async importDocuments(documents: ImportedDocument[]): Promise<ImportSummary> {
+    const collection = await this.getCollection();
+    const summary: ImportSummary = { inserted: 0, reembedded: 0, failed: 0 };
+
+    const reusable = (document: ImportedDocument) =>
+      document.embedding?.length === this.embeddings.dimension &&
+      document.metadata.embedding_model === this.embeddings.model &&
+      document.metadata.embedding_dimension === this.embeddings.dimension;
+
+    const stale = documents.filter((document) => !reusable(document));
+    const embeddings = new Map<ImportedDocument, number[] | null>();
+
+    for (let start = 0; start < stale.length; start += this.batchSize) {
+      const batch = stale.slice(start, start + this.batchSize);
+
+      try {
+        const vectors = await this.embedBatch(batch.map((document) => document.content));
+        batch.forEach((document, offset) => embeddings.set(document, vectors[offset]));
+      } catch (error) {
+        logger.error(`Error embedding imported documents: ${error}`);
+        batch.forEach((document) => embeddings.set(document, null));
+      }
+    }
+
+    const records: RAGDocument[] = [];
+
+    for (const document of documents) {
+      const embedding = embeddings.has(document) ? embeddings.get(document) : document.embedding;
+
+      if (!embedding) {
+        summary.failed++;
+        continue;
+      }
+
+      if (embeddings.has(document)) {
+        summary.reembedded++;
+      }
+
+      records.push({
+        ...document,
+        uuid: randomUUID(),
+        ...(this.uid && { uid: this.uid }),
+        embedding,
+        metadata: {
+          ...document.metadata,
+          embedding_model: this.embeddings.model,
+          embedding_dimension: this.embeddings.dimension,
+        },
+      });
+    }
+
+    if (records.length > 0) {
+      try {
+        await collection.insertMany(records, { ordered: false });
+        summary.inserted = records.length;
+        await this.indexInserted(records);
+      } catch (error) {
+        logger.error(`Error inserting imported documents: ${error}`);
+        await this.invalidateIndex();
+
+        // An unordered insert stores every document it can; only the rest failed
+        if (error instanceof MongoBulkWriteError) {
+          summary.inserted = error.insertedCount;
+        }
+
+        summary.failed += records.length - summary.inserted;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Embed and store a single chunk for this builder's uid
+   */
+  async addChunk(chunk: TextChunk): Promise<RAGDocument> {
+    const collection = await this.getCollection();
+    const [embedding] = await this.createEmbeddings([chunk.content]);
+    const document: RAGDocument = {
+      uuid: randomUUID(),
+      ...(this.uid && { uid: this.uid }),
+      content: chunk.content,
+      embedding,
+      created_at: new Date(),
+      metadata: {
+        ...chunk.metadata,
+        index: 0,
+        embedding_model: this.embeddings.model,
+        embedding_dimension: this.embeddings.dimension,
+      },
+    };
+
+    await collection.insertOne({ ...document });
+    await this.indexInserted([document]);
+
+    return document;
+  }
+
+  /**
+   * Replace the content of a chunk of a uid and embed it again
+   * The given metadata fields are set, the others are kept. Returns the updated
+   * chunk, or null when the uid has no chunk with the uuid.
+   */
+  async updateChunk(
+    uid: string,
+    uuid: string,
+    content: string,
+    metadata: ChunkMetadata = {},
+  ): Promise<RAGDocument | null> {
+    const collection = await this.getCollection();
+    const [embedding] = await this.createEmbeddings([content]);
+    const metadataUpdate = Object.fromEntries(
+      Object.entries({
+        ...metadata,
+        embedding_model: this.embeddings.model,
+        embedding_dimension: this.embeddings.dimension,
+      }).map(([key, value]) => [`metadata.${key}`, value]),
+    );
+
+    const document = await collection.findOneAndUpdate(
+      { uid, uuid },
+      { $set: { content, embedding, ...metadataUpdate } },
+      { returnDocument: 'after', projection: { _id: 0 } },
+    );
+
+    if (document) {
+      await this.vectorIndex?.remove(uid, [uuid]);
+      await this.vectorIndex?.add(uid, [document]);
+    }
+
+    return document;
   }
 
   /**
@@ -197,10 +556,97 @@ export class RAGBuilder {
   async cleanupByUid(uid: string): Promise<number> {
     const collection = await this.getCollection();
     const result = await collection.deleteMany({ uid });
+    await this.vectorIndex?.invalidate(uid);
+
+    return result.deletedCount;
+  }
+
+  /**
+   * Clean up the knowledge extracted from a single source of a uid
+   */
+  async cleanupBySource(uid: string, sourceId: string): Promise<number> {
+    const collection = await this.getCollection();
+    const filter = { uid, 'metadata.source_id': sourceId };
+
+    // The uuids are only needed when the uid is loaded in the vector index
+    const uuids = this.vectorIndex?.has(uid) ? await collection.distinct('uuid', filter) : [];
+    const result = await collection.deleteMany(filter);
+    await this.vectorIndex?.remove(uid, uuids);
+
+    return result.deletedCount;
+  }
+
+  /**
+   * Delete chunks of a uid by uuid
+   */
+  async deleteByUuids(uid: string, uuids: string[]): Promise<number> {
+    if (uuids.length === 0) {
+      return 0;
+    }
+
+    const collection = await this.getCollection();
+    const result = await collection.deleteMany({ uid, uuid: { $in: uuids } });
+    await this.vectorIndex?.remove(uid, uuids);
 
     return result.deletedCount;
   }
 
+  /**
+   * Move all knowledge of one uid to another uid
+   */
+  async reassignUid(fromUid: string, toUid: string): Promise<number> {
+    const collection = await this.getCollection();
+    const result = await collection.updateMany({ uid: fromUid }, { $set: { uid: toUid } });
+    await this.vectorIndex?.move(fromUid, toUid);
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Replace chunks of a uid with the chunks staged under another uid
+   * Runs in a transaction so readers see either the old or the new chunks. Without
+   * transaction support (standalone MongoDB) the staged chunks are published before
+   * the replaced ones are deleted, so the uid is never left empty.
+   */
+  async replaceWithStaged(stagingUid: string, uid: string, replacedUuids: string[]): Promise<void> {
+    const collection = await this.getCollection();
+    const session = getClient().startSession();
+
+    try {
+      await session.withTransaction(async () => {
+        await collection.deleteMany({ uid, uuid: { $in: replacedUuids } }, { session });
+        await collection.updateMany({ uid: stagingUid }, { $set: { uid } }, { session });
+      });
+      await this.followReplacement(stagingUid, uid, replacedUuids);
+
+      return;
+    } catch (error) {
+      if (!(error instanceof MongoServerError && error.code === TRANSACTIONS_UNSUPPORTED)) {
+        throw error;
+      }
+
+      logger.warn('Transactions are not supported, switching over without one');
+    } finally {
+      await session.endSession();
+    }
+
+    await collection.updateMany({ uid: stagingUid }, { $set: { uid } });
+    await collection.deleteMany({ uid, uuid: { $in: replacedUuids } });
+    await this.followReplacement(stagingUid, uid, replacedUuids);
+  }
+
+  /**
+   * Apply a switch-over from staged chunks to the vector index
+   */
+  private async followReplacement(
+    stagingUid: string,
+    uid: string,
+    replacedUuids: string[],
+  ): Promise<void> {
+    await this.vectorIndex?.remove(uid, replacedUuids);
+    await this.vectorIndex?.move(stagingUid, uid);
+  }
+
   /**
    * Convenience method to create and build a RAG database in one step
    */
@@ -211,3 +657,21 @@ export class RAGBuilder {
     return builder;
   }
 }
+
+/**
+ * Create a RAGBuilder for a uid configured from environment variables
+ * The embedding provider can be overridden, e.g. to re-index into another model
+ */
+export function createRAGBuilder(
+  uid: string,
+  embeddingProvider: EmbeddingProvider = createEmbeddingProvider(),
+): RAGBuilder {
+  return new RAGBuilder({
+    mongodbUrl: process.env.DATABASE_URL,
+    databaseName: process.env.DATABASE_NAME || 'nfa',
+    collectionName: process.env.DATABASE_COLLECTION || 'knowledges',
+    embeddingProvider,
+    uid,
+    vectorIndex: getKnowledgeVectorIndex(),
+  });
+}
@@ -0,0 +1,369 @@
+/**
+ * PII Redaction
+ * Masks or tokenizes personal data in extracted text before it is embedded and stored
+ *
+ * Features:
+ * - Detection of emails, phone numbers, payment card numbers (Luhn checked),
+ *   IBANs (checksum verified), US social security numbers and IPv4 addresses
+ * - Masking with a placeholder per type, or tokenization with a keyed hash so the
+ *   same value maps to the same token across documents without being recoverable
+ * - Redaction policy per uid stored in MongoDB, with defaults from the environment;
+ *   nothing is redacted unless a policy or the environment turns it on
+ * - Counts of redacted values per type
+ */
+import { createHmac } from 'crypto';
+import { Collection, Db, WithId } from 'mongodb';
+
+import { connectToDatabase, getClient } from '../config';
+import {
+  KnowledgeRedactionPolicy,
+  PiiType,
+  RedactionCounts,
+  RedactionMode,
+  RedactionPolicy,
+} from '../models';
+import { createScopedLogger } from '../utils';
+import { ParsedSegment } from './fileParser';
+
+const logger = createScopedLogger('services/redaction');
+
+export type { PiiType, RedactionCounts, RedactionMode, RedactionPolicy } from '../models';
+
+export const PII_TYPES: PiiType[] = ['email', 'phone', 'card', 'iban', 'ssn', 'ip'];
+
+// Types redacted when neither the uid policy nor the environment lists them
+const DEFAULT_PII_TYPES: PiiType[] = ['email', 'phone', 'card', 'iban', 'ssn'];
+
+export const REDACTION_MODES: RedactionMode[] = ['off', 'mask', 'tokenize'];
+
+export type RedactionOptions = Partial<RedactionPolicy>;
+
+export interface RedactionResult {
+  text: string;
+  counts: RedactionCounts;
+}
+
+interface PiiPattern {
+  type: PiiType;
+  pattern: RegExp;
+  accept?: (match: string) => boolean; // Rejects matches that only look like the type
+}
+
+/**
+ * Luhn checksum of a payment card number
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+
+    if (i % 2 === 1) {
+      digit *= 2;
+
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 checksum of an IBAN
+ */
+function passesIbanChecksum(iban: string): boolean {
+  const compact = iban.replace(/\s/g, '');
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+/**
+ * Whether a phone number candidate is a plausible phone number rather than a date,
+ * price, SKU or other run of digits: an international prefix, an area code in
+ * parentheses, the North American 3-3-4 layout, or a national number with a leading
+ * trunk 0 and at least ten digits
+ */
+function isPhoneNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '').length;
+
+  if (digits < 7 || digits > 15) {
+    return false;
+  }
+
+  if (/^\d{4}[-./]\d{1,2}[-./]\d{1,2}$|^\d{1,2}[-./]\d{1,2}[-./]\d{2,4}$/.test(match)) {
+    return false;
+  }
+
+  return (
+    /^[+(]/.test(match) ||
+    /^\d{3}([-. ])\d{3}\1\d{4}$/.test(match) ||
+    (/^0\d/.test(match) && digits >= 10)
+  );
+}
+
+// Applied in order; earlier types win where patterns overlap
+const PII_PATTERNS: PiiPattern[] = [
+  { type: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+  {
+    type: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    accept: passesIbanChecksum,
+  },
+  {
+    type: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: (match) => passesLuhn(match.replace(/\D/g, '')),
+  },
+  { type: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  {
+    type: 'ip',
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+  },
+  {
+    type: 'phone',
+    pattern:
+      /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]\d{2,4}){1,4}(?!\w)/g,
+    accept: isPhoneNumber,
+  },
+];
+
+/**
+ * Validate redaction options and fill in the defaults from the environment
+ * KNOWLEDGE_REDACTION_MODE sets the default mode (off) and KNOWLEDGE_REDACTION_TYPES
+ * a comma-separated list of the default types.
+ */
+export function resolveRedactionPolicy(options: RedactionOptions = {}): RedactionPolicy {
+  const mode = options.mode ?? ((process.env.KNOWLEDGE_REDACTION_MODE || 'off') as RedactionMode);
+
+  if (!REDACTION_MODES.includes(mode)) {
+    throw new Error(
+      `Unsupported redaction mode: ${mode}. Supported modes: ${REDACTION_MODES.join(', ')}`,
+    );
+  }
+
+  const envTypes = process.env.KNOWLEDGE_REDACTION_TYPES?.split(',')
+    .map((type) => type.trim())
+    .filter(Boolean) as PiiType[] | undefined;
+  const types = options.types ?? (envTypes?.length ? envTypes : DEFAULT_PII_TYPES);
+
+  if (!Array.isArray(types) || types.some((type) => !PII_TYPES.includes(type))) {
+    throw new Error(`types must be a list of: ${PII_TYPES.join(', ')}`);
+  }
+
+  if (mode === 'tokenize' && !process.env.KNOWLEDGE_REDACTION_SECRET) {
+    throw new Error('KNOWLEDGE_REDACTION_SECRET must be set to tokenize personal data');
+  }
+
+  return { mode, types: [...new Set(types)] };
+}
+
+/**
+ * Check the redaction defaults of the environment, so a bad configuration stops the
+ * server at startup instead of failing every ingestion request
+ */
+export function validateRedactionEnvironment(): void {
+  resolveRedactionPolicy();
+}
+
+/**
+ * Add redaction counts into a running total
+ */
+export function addRedactionCounts(total: RedactionCounts, counts: RedactionCounts): void {
+  for (const [type, count] of Object.entries(counts) as [PiiType, number][]) {
+    total[type] = (total[type] ?? 0) + count;
+  }
+}
+
+/**
+ * Whether two policies redact text the same way
+ */
+export function sameRedactionPolicy(a: RedactionPolicy | undefined, b: RedactionPolicy): boolean {
+  return (
+    a?.mode === b.mode &&
+    a.types.length === b.types.length &&
+    a.types.every((type) => b.types.includes(type))
+  );
+}
+
+/**
+ * Replace the personal data in a text according to a policy
+ */
+export function redactText(text: string, policy: RedactionPolicy): RedactionResult {
+  const counts: RedactionCounts = {};
+
+  if (policy.mode === 'off') {
+    return { text, counts };
+  }
+
+  const secret = process.env.KNOWLEDGE_REDACTION_SECRET ?? '';
+  let redacted = text;
+
+  for (const { type, pattern, accept } of PII_PATTERNS) {
+    if (!policy.types.includes(type)) {
+      continue;
+    }
+
+    redacted = redacted.replace(pattern, (match) => {
+      if (accept && !accept(match)) {
+        return match;
+      }
+
+      counts[type] = (counts[type] ?? 0) + 1;
+      const label = type.toUpperCase();
+
+      if (policy.mode === 'mask') {
+        return `[${label}]`;
+      }
+
+      // Normalize so formatting variants of the same value share a token
+      const normalized =
+        type === 'email' ? match.toLowerCase() : match.replace(/[^A-Za-z0-9+]/g, '');
+      const token = createHmac('sha256', secret)
+        .update(`${type}:${normalized}`)
+        .digest('hex')
+        .slice(0, 12);
+
+      return `[${label}_${token}]`;
+    });
+  }
+
+  return { text: redacted, counts };
+}
+
+/**
+ * Redact the text and segments of a parsed document
+ */
+export function redactDocument(
+  text: string,
+  segments: ParsedSegment[] | undefined,
+  policy: RedactionPolicy,
+): RedactionResult & { segments?: ParsedSegment[] } {
+  // Segments are what gets chunked when present, so they are what gets counted
+  if (!segments) {
+    return redactText(text, policy);
+  }
+
+  const counts: RedactionCounts = {};
+  const redactedSegments = segments.map((segment) => {
+    const result = redactText(segment.text, policy);
+    addRedactionCounts(counts, result.counts);
+
+    return { ...segment, text: result.text };
+  });
+
+  return { text: redactText(text, policy).text, segments: redactedSegments, counts };
+}
+
+interface RedactionPolicyStoreOptions {
+  databaseName?: string;
+  collectionName?: string;
+}
+
+export class RedactionPolicyStore {
+  private databaseName: string;
+  private collectionName: string;
+
+  constructor(options: RedactionPolicyStoreOptions = {}) {
+    this.databaseName = options.databaseName ?? 'nfa';
+    this.collectionName = options.collectionName ?? 'knowledge_redaction_policies';
+  }
+
+  /**
+   * Get or create the policies collection
+   */
+  private async getCollection(): Promise<Collection<KnowledgeRedactionPolicy>> {
+    // Ensure database is connected
+    await connectToDatabase();
+    const db: Db = getClient().db(this.databaseName);
+    const collection = db.collection<KnowledgeRedactionPolicy>(this.collectionName);
+
+    // Create indexes
+    try {
+      const indexes = await collection.listIndexes().toArray();
+      const indexNames = indexes.map((idx) => idx.name);
+
+      if (!indexNames.includes('uid_1')) {
+        await collection.createIndex({ uid: 1 }, { unique: true });
+      }
+    } catch (error) {
+      logger.warn(`Could not create indexes: ${error}`);
+    }
+
+    return collection;
+  }
+
+  /**
+   * Get the stored policy of a uid, if any
+   */
+  async getStoredPolicy(uid: string): Promise<WithId<KnowledgeRedactionPolicy> | null> {
+    const collection = await this.getCollection();
+
+    return collection.findOne({ uid });
+  }
+
+  /**
+   * Get the policy that applies to a uid: its stored policy, or the defaults
+   * A stored tokenize policy masks instead while KNOWLEDGE_REDACTION_SECRET is unset,
+   * so personal data is still redacted without tokens anyone could recompute
+   */
+  async getPolicy(uid: string): Promise<RedactionPolicy> {
+    const stored = await this.getStoredPolicy(uid);
+
+    if (!stored) {
+      return resolveRedactionPolicy();
+    }
+
+    if (stored.mode === 'tokenize' && !process.env.KNOWLEDGE_REDACTION_SECRET) {
+      logger.warn(`KNOWLEDGE_REDACTION_SECRET is not set, masking personal data of ${uid}`);
+
+      return { mode: 'mask', types: stored.types };
+    }
+
+    return { mode: stored.mode, types: stored.types };
+  }
+
+  /**
+   * Store the policy of a uid
+   */
+  async setPolicy(uid: string, policy: RedactionPolicy): Promise<void> {
+    const collection = await this.getCollection();
+    await collection.updateOne(
+      { uid },
+      { $set: { ...policy, updatedAt: new Date() } },
+      { upsert: true },
+    );
+  }
+
+  /**
+   * Remove the stored policy of a uid, so the defaults apply again
+   */
+  async deletePolicy(uid: string): Promise<boolean> {
+    const collection = await this.getCollection();
+    const result = await collection.deleteOne({ uid });
+
+    return result.deletedCount > 0;
+  }
+}
+
+/**
+ * Create a RedactionPolicyStore configured from environment variables
+ */
+export function createRedactionPolicyStore(): RedactionPolicyStore {
+  return new RedactionPolicyStore({
+    databaseName: process.env.DATABASE_NAME || 'nfa',
+  });
+}
@@ -0,0 +1,312 @@
+/**
+ * Knowledge Reranker
+ * Reorders retrieved knowledge chunks by their relevance to the query
+ *
+ * Scorers:
+ * - openai: chat completion rating of each (query, chunk) pair
+ * - anthropic: Messages API rating of each (query, chunk) pair
+ * - local: deterministic term and phrase overlap, for offline use and tests
+ *
+ * Scores are cached per query hash and chunk content, so repeated questions do not
+ * pay for the same ratings twice and edited chunks are rated again.
+ */
+import axios, { AxiosResponse } from 'axios';
+import { createHash } from 'crypto';
+import OpenAI from 'openai';
+
+import { createScopedLogger, mapWithConcurrency } from '../utils';
+import { KnowledgeSearchResult } from './knowledgeSearch';
+import { keywordTerms } from './tokenizer';
+
+const logger = createScopedLogger('services/reranker');
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+
+const RELEVANCE_INSTRUCTIONS =
+  'You rate how relevant a passage from a sales knowledge base is to a search query. ' +
+  'Reply with only an integer from 0 (irrelevant) to 10 (directly answers the query).';
+
+export interface RelevanceScorer {
+  readonly name: string; // Identifies the scorer and model in cache keys
+  score(query: string, passage: string): Promise<number>; // 0 (irrelevant) to 1
+}
+
+export type RelevanceScorerName = 'openai' | 'anthropic' | 'local';
+
+interface LLMScorerOptions {
+  apiKey?: string;
+  model?: string;
+}
+
+interface KnowledgeRerankerOptions {
+  // A factory is called on the first rerank, so scorers needing credentials are only
+  // built when reranking is asked for
+  scorer: RelevanceScorer | (() => RelevanceScorer);
+  concurrency?: number; // Pairs scored in parallel
+  cacheSize?: number; // Queries kept in the score cache
+  cacheTtlMs?: number;
+}
+
+export interface RerankOptions {
+  topN?: number; // Results kept after reranking (default: all)
+}
+
+interface CacheEntry {
+  expiresAt: number;
+  scores: Map<string, number>; // Chunk uuid to score
+}
+
+/**
+ * Build the rating prompt for a (query, passage) pair
+ */
+function ratingPrompt(query: string, passage: string): string {
+  return `Query: ${query}\n\nPassage:\n${passage}`;
+}
+
+/**
+ * Read a 0-10 rating from a model reply and scale it to 0-1
+ */
+function parseRating(reply: string): number {
+  const match = reply.match(/\d+(\.\d+)?/);
+  if (!match) {
+    throw new Error(`Unexpected relevance rating: ${reply}`);
+  }
+
+  return Math.min(Math.max(parseFloat(match[0]), 0), 10) / 10;
+}
+
+export class OpenAIRelevanceScorer implements RelevanceScorer {
+  readonly name: string;
+  private model: string;
+  private client: OpenAI;
+
+  constructor(options: LLMScorerOptions = {}) {
+    this.model = options.model ?? 'gpt-4o-mini';
+    this.name = `openai:${this.model}`;
+    this.client = new OpenAI({ apiKey: options.apiKey ?? process.env.OPENAI_API_KEY });
+  }
+
+  async score(query: string, passage: string): Promise<number> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: RELEVANCE_INSTRUCTIONS },
+        { role: 'user', content: ratingPrompt(query, passage) },
+      ],
+      temperature: 0,
+      max_tokens: 5,
+    });
+
+    return parseRating(completion.choices[0]?.message?.content ?? '');
+  }
+}
+
+export class AnthropicRelevanceScorer implements RelevanceScorer {
+  readonly name: string;
+  private model: string;
+  private apiKey: string;
+
+  constructor(options: LLMScorerOptions = {}) {
+    this.model = options.model ?? 'claude-3-5-haiku-latest';
+    this.name = `anthropic:${this.model}`;
+    this.apiKey = options.apiKey ?? process.env.ANTHROPIC_API_KEY ?? '';
+  }
+
+  async score(query: string, passage: string): Promise<number> {
+    const { data }: AxiosResponse = await axios.post(
+      ANTHROPIC_API_URL,
+      {
+        model: this.model,
+        system: RELEVANCE_INSTRUCTIONS,
+        messages: [{ role: 'user', content: ratingPrompt(query, passage) }],
+        max_tokens: 5,
+        temperature: 0,
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+      },
+    );
+
+    const text = (data.content ?? [])
+      .map((block: { type: string; text?: string }) => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return parseRating(text);
+  }
+}
+
+export class LocalRelevanceScorer implements RelevanceScorer {
+  readonly name = 'local';
+
+  /**
+   * Share of the query terms found in the passage, with a bonus for query
+   * phrases (adjacent term pairs) that appear in the passage in the same order
+   */
+  async score(query: string, passage: string): Promise<number> {
+    const queryTerms = keywordTerms(query);
+    const uniqueTerms = [...new Set(queryTerms)];
+
+    if (uniqueTerms.length === 0) {
+      return 0;
+    }
+
+    const passageTerms = keywordTerms(passage);
+    const passageSet = new Set(passageTerms);
+    const coverage = uniqueTerms.filter((term) => passageSet.has(term)).length / uniqueTerms.length;
+
+    const pairs = (terms: string[]) =>
+      terms.slice(1).map((term, index) => `${terms[index]} ${term}`);
+    const queryPairs = [...new Set(pairs(queryTerms))];
+
+    if (queryPairs.length === 0) {
+      return coverage;
+    }
+
+    const passagePairs = new Set(pairs(passageTerms));
+    const phraseCoverage =
+      queryPairs.filter((pair) => passagePairs.has(pair)).length / queryPairs.length;
+
+    return 0.7 * coverage + 0.3 * phraseCoverage;
+  }
+}
+
+export class KnowledgeReranker {
+  private scorer: RelevanceScorer | (() => RelevanceScorer);
+  private concurrency: number;
+  private cacheSize: number;
+  private cacheTtlMs: number;
+  private cache: Map<string, CacheEntry>;
+
+  constructor(options: KnowledgeRerankerOptions) {
+    this.scorer = options.scorer;
+    this.concurrency = options.concurrency ?? 4;
+    this.cacheSize = options.cacheSize ?? 500;
+    this.cacheTtlMs = options.cacheTtlMs ?? 60 * 60 * 1000;
+    this.cache = new Map<string, CacheEntry>();
+  }
+
+  /**
+   * Get the scorer, building it on first use
+   */
+  private getScorer(): RelevanceScorer {
+    if (typeof this.scorer === 'function') {
+      this.scorer = this.scorer();
+    }
+
+    return this.scorer;
+  }
+
+  /**
+   * Get the cached scores of a query, evicting the oldest queries over the cache size
+   */
+  private getCachedScores(query: string, scorer: RelevanceScorer): Map<string, number> {
+    const normalized = query.trim().toLowerCase().replace(/\s+/g, ' ');
+    const key = `${scorer.name}:${createHash('sha256').update(normalized).digest('hex')}`;
+    const now = Date.now();
+    let entry = this.cache.get(key);
+
+    if (!entry || entry.expiresAt < now) {
+      entry = { expiresAt: now + this.cacheTtlMs, scores: new Map<string, number>() };
+    }
+
+    // Re-insert so the Map iteration order tracks recency
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+
+    while (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
+    return entry.scores;
+  }
+
+  /**
+   * Score every result against the query, reorder by score and keep the top N
+   * Results that could not be scored keep their retrieval order after the scored ones
+   */
+  async rerank(
+    query: string,
+    results: KnowledgeSearchResult[],
+    { topN = results.length }: RerankOptions = {},
+  ): Promise<KnowledgeSearchResult[]> {
+    const scorer = this.getScorer();
+    const cached = this.getCachedScores(query, scorer);
+
+    const scores = await mapWithConcurrency(results, this.concurrency, async (result) => {
+      const key = `${result.uuid}:${createHash('sha256').update(result.content).digest('hex')}`;
+      const hit = cached.get(key);
+      if (hit !== undefined) {
+        return hit;
+      }
+
+      try {
+        const score = await scorer.score(query, result.content);
+        cached.set(key, score);
+
+        return score;
+      } catch (error) {
+        logger.warn(`Could not rerank chunk ${result.uuid}: ${error}`);
+
+        return undefined;
+      }
+    });
+
+    return results
+      .map((result, index) => ({ result, index, score: scores[index] }))
+      .sort((a, b) => {
+        if (a.score === undefined || b.score === undefined) {
+          return a.score === b.score ? a.index - b.index : a.score === undefined ? 1 : -1;
+        }
+
+        return b.score - a.score || a.index - b.index;
+      })
+      .slice(0, topN)
+      .map(({ result, score }) => ({
+        ...result,
+        ...(score !== undefined && { rerankScore: score }),
+      }));
+  }
+}
+
+let sharedReranker: KnowledgeReranker | null = null;
+
+/**
+ * Create the relevance scorer configured by environment variables
+ *
+ * KNOWLEDGE_RERANK_PROVIDER selects openai (default), anthropic or local and
+ * KNOWLEDGE_RERANK_MODEL overrides the provider's default model.
+ */
+export function createRelevanceScorer(): RelevanceScorer {
+  const provider = (process.env.KNOWLEDGE_RERANK_PROVIDER || 'openai') as RelevanceScorerName;
+  const model = process.env.KNOWLEDGE_RERANK_MODEL || undefined;
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIRelevanceScorer({ model });
+    case 'anthropic':
+      return new AnthropicRelevanceScorer({ model });
+    case 'local':
+      return new LocalRelevanceScorer();
+    default:
+      throw new Error(
+        `Unsupported rerank provider: ${provider}. Supported providers: openai, anthropic, local`,
+      );
+  }
+}
+
+/**
+ * Get the shared reranker configured from environment variables
+ * The instance is shared so its score cache is reused across requests. Its scorer is
+ * built on the first rerank, so searches without reranking need no scorer credentials.
+ */
+export function getKnowledgeReranker(): KnowledgeReranker {
+  if (!sharedReranker) {
+    sharedReranker = new KnowledgeReranker({ scorer: createRelevanceScorer });
+  }
+
+  return sharedReranker;
+}
@@ -1,7 +1,12 @@
 /**
  * Text tokenization utilities for RAG processing
  * Provides paragraph, sentence, and word tokenization
+ *
+ * Sentence and word tokenizers are chosen per language: abbreviation-aware sentence
+ * splitting for languages that use spaces, and dictionary-based word segmentation
+ * (Intl.Segmenter) for Japanese, Chinese and Thai.
  */
+import { UNDETERMINED_LANGUAGE, isSpacelessLanguage } from './language';
 
 export interface WordTokenizer {
   tokenize(text: string): string[];
@@ -12,6 +17,43 @@ export interface SentenceTokenizer {
   tokenize(text: string): string[];
 }
 
+/**
+ * Abbreviations that end with a period without ending the sentence, per language
+ * Lowercase and without the final period; internal periods are kept ("e.g")
+ */
+export const SENTENCE_ABBREVIATIONS: Record<string, string[]> = {
+  en: [
+    ...'e.g i.e etc vs cf approx est dept fig vol pp inc ltd co corp llc bros'.split(' '),
+    ...'mr mrs ms dr prof sr jr st mt ave blvd rd a.m p.m u.s u.k'.split(' '),
+    ...'jan feb mar apr jun jul aug sep sept oct nov dec mon tue wed thu fri sat sun'.split(' '),
+  ],
+  de: 'z.b bzw usw ca dr prof nr str tel inkl zzgl ggf evtl d.h u.a vgl gmbh'.split(' '),
+  fr: 'etc p.ex m mme mlle dr prof env cf av bd tél'.split(' '),
+  es: 'sr sra srta dr dra etc p.ej aprox pág núm tel av ud uds'.split(' '),
+  pt: 'sr sra dr dra etc p.ex aprox pág núm tel av'.split(' '),
+  it: 'sig dott prof ecc ca pag tel'.split(' '),
+  nl: 'bijv o.a d.w.z enz ca dhr mevr nr tel'.split(' '),
+};
+
+// Characters of scripts written without spaces between words
+const SPACELESS_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+/**
+ * Get a shared word segmenter for a language
+ */
+function getWordSegmenter(language: string): Intl.Segmenter {
+  let segmenter = segmenters.get(language);
+
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(language, { granularity: 'word' });
+    segmenters.set(language, segmenter);
+  }
+
+  return segmenter;
+}
+
 /**
  * Basic word tokenizer that preserves punctuation
  */
@@ -36,6 +78,34 @@ export class BasicWordTokenizer implements WordTokenizer {
   }
 }
 
+/**
+ * Word tokenizer for languages written without spaces (Japanese, Chinese, Thai)
+ * Uses the dictionary-based word boundaries of Intl.Segmenter. Like
+ * BasicWordTokenizer, tokens keep whitespace and punctuation unless ignored, so
+ * formatWords restores the original text.
+ */
+export class SegmenterWordTokenizer implements WordTokenizer {
+  private segmenter: Intl.Segmenter;
+  private ignorePunctuation: boolean;
+
+  constructor(language: string, ignorePunctuation: boolean = false) {
+    this.segmenter = getWordSegmenter(language);
+    this.ignorePunctuation = ignorePunctuation;
+  }
+
+  tokenize(text: string): string[] {
+    const segments = [...this.segmenter.segment(text)];
+
+    return (
+      this.ignorePunctuation ? segments.filter((segment) => segment.isWordLike) : segments
+    ).map((segment) => segment.segment);
+  }
+
+  formatWords(words: string[]): string {
+    return words.join('');
+  }
+}
+
 /**
  * Basic sentence tokenizer using common sentence boundaries
  */
@@ -48,6 +118,99 @@ export class BasicSentenceTokenizer implements SentenceTokenizer {
   }
 }
 
+/**
+ * Sentence tokenizer that knows abbreviations, initials and full-width punctuation
+ * Periods after an abbreviation ("e.g.", "Inc.") or a single letter ("J. Smith"), or
+ * followed by a lowercase word, do not end a sentence. Periods inside numbers
+ * ("3.14", "v2.0") are never boundaries. Japanese and Chinese sentences end at
+ * 。！？ without needing whitespace.
+ */
+export class RuleSentenceTokenizer implements SentenceTokenizer {
+  private abbreviations: Set<string>;
+
+  constructor(options: { language?: string; abbreviations?: string[] } = {}) {
+    const abbreviations =
+      options.abbreviations ??
+      SENTENCE_ABBREVIATIONS[options.language ?? 'en'] ??
+      SENTENCE_ABBREVIATIONS.en;
+    this.abbreviations = new Set(abbreviations.map((abbreviation) => abbreviation.toLowerCase()));
+  }
+
+  /**
+   * Whether the period ending a text belongs to an abbreviation or an initial
+   */
+  private endsWithAbbreviation(text: string): boolean {
+    const word = text.match(/([\p{L}.]+)\.$/u)?.[1].replace(/^\.+/, '');
+
+    if (!word) {
+      return false;
+    }
+
+    return this.abbreviations.has(word.toLowerCase()) || /^\p{Lu}$/u.test(word);
+  }
+
+  tokenize(text: string): string[] {
+    const sentences: string[] = [];
+    const boundary = /[.!?…]+['"’”)\]]*(?=\s)|[。！？]+[」』"”’)）]*/gu;
+    let start = 0;
+
+    for (const match of text.matchAll(boundary)) {
+      const end = match.index! + match[0].length;
+      const next = text.slice(end).trimStart().charAt(0);
+
+      if (
+        match[0].startsWith('.') &&
+        !match[0].startsWith('..') &&
+        (this.endsWithAbbreviation(text.slice(start, match.index! + 1)) || /\p{Ll}/u.test(next))
+      ) {
+        continue;
+      }
+
+      sentences.push(text.slice(start, end));
+      start = end;
+    }
+
+    sentences.push(text.slice(start));
+
+    return sentences.map((sentence) => sentence.trim()).filter((sentence) => sentence.length > 0);
+  }
+}
+
+/**
+ * Sentence tokenizer for Thai, which separates sentences with spaces and has no
+ * sentence-ending punctuation
+ */
+export class ThaiSentenceTokenizer implements SentenceTokenizer {
+  tokenize(text: string): string[] {
+    return text.split(/\s+/).filter((sentence) => sentence.length > 0);
+  }
+}
+
+/**
+ * Create the sentence tokenizer for a language (ISO 639-1 code)
+ */
+export function createSentenceTokenizer(
+  language: string = UNDETERMINED_LANGUAGE,
+): SentenceTokenizer {
+  if (language === 'th') {
+    return new ThaiSentenceTokenizer();
+  }
+
+  return new RuleSentenceTokenizer({ language });
+}
+
+/**
+ * Create the word tokenizer for a language (ISO 639-1 code)
+ */
+export function createWordTokenizer(
+  language: string = UNDETERMINED_LANGUAGE,
+  ignorePunctuation: boolean = false,
+): WordTokenizer {
+  return isSpacelessLanguage(language)
+    ? new SegmenterWordTokenizer(language, ignorePunctuation)
+    : new BasicWordTokenizer(ignorePunctuation);
+}
+
 /**
  * Tokenize text into paragraphs
  */
@@ -58,6 +221,36 @@ export function tokenizeParagraphs(text: string): string[] {
   return paragraphs.map((p) => p.trim()).filter((p) => p.length > 0);
 }
 
+/**
+ * Estimate the number of model tokens in a text
+ * Uses the common ~4 characters per token heuristic for English text, and one token
+ * per character for scripts written without spaces
+ */
+export function estimateTokens(text: string): number {
+  const spaceless = text.match(new RegExp(SPACELESS_SCRIPT.source, 'gu'))?.length ?? 0;
+
+  return Math.ceil((text.length - spaceless) / 4) + spaceless;
+}
+
+/**
+ * Split text into lowercase keyword terms, keeping SKU-like tokens ("PRO-200") whole
+ * Runs of Japanese, Chinese or Thai text are segmented into words
+ */
+export function keywordTerms(text: string): string[] {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)*/gu) ?? [];
+
+  return terms.flatMap((term) => {
+    if (!SPACELESS_SCRIPT.test(term)) {
+      return [term];
+    }
+
+    // The CJ dictionary of the segmenter covers both Japanese and Chinese
+    const language = /\p{Script=Thai}/u.test(term) ? 'th' : 'ja';
+
+    return new SegmenterWordTokenizer(language, true).tokenize(term);
+  });
+}
+
 /**
  * Sentence chunker that splits text into overlapping chunks
  */
@@ -91,7 +284,16 @@ export class SentenceChunker {
     for (const paragraph of this.paragraphTokenizer(text)) {
       let lastBufWords: string[] = [];
 
-      for (const sentence of this.sentenceTokenizer.tokenize(paragraph)) {
+      const sentences = this.sentenceTokenizer.tokenize(paragraph);
+
+      for (let i = 0; i < sentences.length; i++) {
+        // Restore the whitespace the sentence tokenizer consumed between sentences;
+        // Japanese and Chinese sentences are not separated by spaces
+        const sentence =
+          i < sentences.length - 1 && !/[。！？」』）]$/.test(sentences[i])
+            ? `${sentences[i]} `
+            : sentences[i];
+
         for (const word of this.wordTokenizer.tokenize(sentence)) {
           const reconstructed = this.wordTokenizer.formatWords([...bufWords, word]);
 
@@ -0,0 +1,538 @@
+/**
+ * Knowledge Vector Index
+ * In-process approximate nearest-neighbour search over the knowledges collection,
+ * for MongoDB deployments without Atlas vector search
+ *
+ * Features:
+ * - One HNSW graph per uid, built from the stored chunks on first use
+ * - Kept up to date by RAGBuilder inserts, updates and deletes in this process; every
+ *   change also sets a new revision of the uid in MongoDB, so changes made by other
+ *   replicas are detected by revision or chunk count and trigger a rebuild
+ * - Snapshots on disk, so restarts load graphs instead of rebuilding them
+ * - Least recently used partitions are unloaded above a configurable limit
+ */
+import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import { Collection, Db } from 'mongodb';
+import * as path from 'path';
+
+import { connectToDatabase, getClient } from '../config';
+import { createScopedLogger } from '../utils';
+import { HnswIndex, HnswMatch } from './hnsw';
+import { DocumentMetadata, RAGDocument } from './ragBuilder';
+
+const logger = createScopedLogger('services/vectorIndex');
+
+// Revisions of uids unchanged for this long are dropped; their partitions rebuild once
+const REVISION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+interface KnowledgeVectorIndexOptions {
+  databaseName?: string;
+  collectionName?: string;
+  revisionsCollectionName?: string;
+  snapshotDir?: string | null; // Null disables snapshots
+  snapshotDelayMs?: number; // Delay before changed partitions are written to disk
+  maxPartitions?: number; // Partitions kept in memory
+  m?: number;
+  efConstruction?: number;
+  efSearch?: number;
+}
+
+export interface VectorIndexQuery {
+  uid: string;
+  vector: number[];
+  model: string; // Embedding model of the query; chunks of other models are not indexed
+  topK: number;
+}
+
+interface Partition {
+  uid: string;
+  model: string;
+  index: HnswIndex;
+  documentCount: number; // Chunks of the uid in the collection, of any model
+  revision: string | null; // Revision of the uid the partition is current with
+  dirty: boolean;
+}
+
+interface PartitionSnapshotMeta {
+  uid: string;
+  model: string;
+  documentCount: number;
+  revision?: string | null;
+}
+
+// Set to a new random value on every change to the chunks of a uid
+interface IndexRevision {
+  _id: string; // Uid
+  revision: string;
+  updatedAt: Date;
+}
+
+/**
+ * Whether a stored chunk can be compared with vectors of the given model and dimension
+ * Chunks stored before the model was recorded only need a matching dimension
+ */
+function isIndexable(
+  metadata: DocumentMetadata | undefined,
+  embedding: number[],
+  model: string,
+  dimension: number,
+): boolean {
+  if (embedding.length !== dimension) {
+    return false;
+  }
+
+  return metadata?.embedding_model === undefined || metadata.embedding_model === model;
+}
+
+export class KnowledgeVectorIndex {
+  private databaseName: string;
+  private collectionName: string;
+  private revisionsCollectionName: string;
+  private snapshotDir: string | null;
+  private snapshotDelayMs: number;
+  private maxPartitions: number;
+  private m?: number;
+  private efConstruction?: number;
+  private efSearch?: number;
+  private partitions = new Map<string, Partition>();
+  private loading = new Map<string, Promise<Partition>>();
+  private snapshotTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: KnowledgeVectorIndexOptions = {}) {
+    this.databaseName = options.databaseName ?? 'nfa';
+    this.collectionName = options.collectionName ?? 'knowledges';
+    this.revisionsCollectionName = options.revisionsCollectionName ?? 'knowledge_index_revisions';
+    this.snapshotDir =
+      options.snapshotDir === undefined
+        ? path.join(process.cwd(), 'data', 'knowledge-index')
+        : options.snapshotDir;
+    this.snapshotDelayMs = options.snapshotDelayMs ?? 30000;
+    this.maxPartitions = options.maxPartitions ?? 100;
+    this.m = options.m;
+    this.efConstruction = options.efConstruction;
+    this.efSearch = options.efSearch;
+  }
+
+  private async getCollection(): Promise<Collection<RAGDocument>> {
+    // Ensure database is connected
+    await connectToDatabase();
+    const db: Db = getClient().db(this.databaseName);
+
+    return db.collection<RAGDocument>(this.collectionName);
+  }
+
+  /**
+   * Get or create the revisions collection
+   */
+  private async getRevisions(): Promise<Collection<IndexRevision>> {
+    // Ensure database is connected
+    await connectToDatabase();
+    const db: Db = getClient().db(this.databaseName);
+    const collection = db.collection<IndexRevision>(this.revisionsCollectionName);
+
+    // Create indexes
+    try {
+      const indexes = await collection.listIndexes().toArray();
+      const indexNames = indexes.map((idx) => idx.name);
+
+      if (!indexNames.includes('updatedAt_1')) {
+        await collection.createIndex(
+          { updatedAt: 1 },
+          { expireAfterSeconds: REVISION_TTL_SECONDS },
+        );
+      }
+    } catch (error) {
+      logger.warn(`Could not create indexes: ${error}`);
+    }
+
+    return collection;
+  }
+
+  /**
+   * Get the current revision of a uid, null before its first recorded change
+   */
+  private async getRevision(uid: string): Promise<string | null> {
+    const revisions = await this.getRevisions();
+    const document = await revisions.findOne({ _id: uid });
+
+    return document?.revision ?? null;
+  }
+
+  /**
+   * Set a new revision of a uid after its chunks changed
+   * The loaded partition follows the new revision when it was current with the
+   * previous one; otherwise another replica changed the uid too and it is rebuilt.
+   * Failures are logged rather than thrown, since the chunks are already written.
+   */
+  private async recordChange(uid: string): Promise<void> {
+    const revision = randomUUID();
+
+    try {
+      const revisions = await this.getRevisions();
+      const previous = await revisions.findOneAndUpdate(
+        { _id: uid },
+        { $set: { revision, updatedAt: new Date() } },
+        { upsert: true, returnDocument: 'before' },
+      );
+      const partition = this.partitions.get(uid);
+
+      if (partition) {
+        if ((previous?.revision ?? null) === partition.revision) {
+          partition.revision = revision;
+        } else {
+          this.partitions.delete(uid);
+        }
+      }
+    } catch (error) {
+      logger.warn(`Could not record a change to the vector index of ${uid}: ${error}`);
+      this.partitions.delete(uid);
+    }
+  }
+
+  private createIndex(dimension: number): HnswIndex {
+    return new HnswIndex({
+      dimension,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+    });
+  }
+
+  private snapshotPath(uid: string): string {
+    return path.join(this.snapshotDir!, `${encodeURIComponent(uid)}.hnsw`);
+  }
+
+  /**
+   * Whether the partition of a uid is loaded, i.e. needs to follow changes
+   */
+  has(uid: string): boolean {
+    return this.partitions.has(uid);
+  }
+
+  /**
+   * Keep a partition, unloading the least recently used ones above the limit
+   */
+  private keep(partition: Partition): void {
+    // Re-insert so the Map iteration order tracks recency
+    this.partitions.delete(partition.uid);
+    this.partitions.set(partition.uid, partition);
+
+    while (this.partitions.size > this.maxPartitions) {
+      const [oldest] = this.partitions.values();
+      this.partitions.delete(oldest.uid);
+
+      if (oldest.dirty) {
+        void this.writeSnapshot(oldest);
+      }
+    }
+  }
+
+  /**
+   * Build the partition of a uid from the stored chunks
+   */
+  private async build(
+    uid: string,
+    model: string,
+    dimension: number,
+    revision: string | null,
+  ): Promise<Partition> {
+    const collection = await this.getCollection();
+    const cursor = collection.find(
+      { uid },
+      { projection: { _id: 0, uuid: 1, embedding: 1, metadata: 1 } },
+    );
+    const index = this.createIndex(dimension);
+    let documentCount = 0;
+
+    for await (const document of cursor) {
+      documentCount++;
+
+      if (isIndexable(document.metadata, document.embedding, model, dimension)) {
+        index.add(document.uuid, document.embedding);
+      }
+    }
+
+    logger.log(`Built vector index of ${uid} with ${index.size} of ${documentCount} chunks`);
+
+    const partition: Partition = { uid, model, index, documentCount, revision, dirty: false };
+    await this.writeSnapshot(partition);
+
+    return partition;
+  }
+
+  /**
+   * Load the snapshot of a uid when it matches the model, the stored chunk count and
+   * the revision of the uid
+   */
+  private async readSnapshot(
+    uid: string,
+    model: string,
+    dimension: number,
+    documentCount: number,
+    revision: string | null,
+  ): Promise<Partition | null> {
+    if (!this.snapshotDir) {
+      return null;
+    }
+
+    try {
+      const buffer = await fs.readFile(this.snapshotPath(uid));
+      const metaLength = buffer.readUInt32LE(0);
+      const meta: PartitionSnapshotMeta = JSON.parse(buffer.subarray(4, 4 + metaLength).toString());
+
+      if (
+        meta.uid !== uid ||
+        meta.model !== model ||
+        meta.documentCount !== documentCount ||
+        (meta.revision ?? null) !== revision
+      ) {
+        return null;
+      }
+
+      const index = HnswIndex.fromBuffer(buffer.subarray(4 + metaLength));
+
+      return index.dimension === dimension
+        ? { uid, model, index, documentCount, revision, dirty: false }
+        : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Could not read vector index snapshot of ${uid}: ${error}`);
+      }
+
+      return null;
+    }
+  }
+
+  /**
+   * Write the snapshot of a partition (metadata header, then the HNSW graph)
+   */
+  private async writeSnapshot(partition: Partition): Promise<void> {
+    if (!this.snapshotDir) {
+      return;
+    }
+
+    partition.dirty = false;
+
+    const meta: PartitionSnapshotMeta = {
+      uid: partition.uid,
+      model: partition.model,
+      documentCount: partition.documentCount,
+      revision: partition.revision,
+    };
+    const json = Buffer.from(JSON.stringify(meta));
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(json.length);
+
+    const file = this.snapshotPath(partition.uid);
+    const temporary = `${file}.${process.pid}.tmp`;
+
+    try {
+      await fs.mkdir(this.snapshotDir, { recursive: true });
+      await fs.writeFile(temporary, Buffer.concat([length, json, partition.index.toBuffer()]));
+      await fs.rename(temporary, file);
+    } catch (error) {
+      logger.warn(`Could not write vector index snapshot of ${partition.uid}: ${error}`);
+    }
+  }
+
+  /**
+   * Write the snapshots of changed partitions after a delay, batching frequent changes
+   */
+  private scheduleSnapshots(): void {
+    if (!this.snapshotDir || this.snapshotTimer) {
+      return;
+    }
+
+    this.snapshotTimer = setTimeout(() => {
+      this.snapshotTimer = null;
+      void this.flush();
+    }, this.snapshotDelayMs);
+    this.snapshotTimer.unref();
+  }
+
+  /**
+   * Write the snapshots of all changed partitions now
+   */
+  async flush(): Promise<void> {
+    for (const partition of [...this.partitions.values()]) {
+      if (partition.dirty) {
+        await this.writeSnapshot(partition);
+      }
+    }
+  }
+
+  /**
+   * Get the partition of a uid for a model, loading or rebuilding it when it is
+   * missing, built for another model, or out of date with the revision of the uid or
+   * the stored chunk count
+   */
+  private async getPartition(uid: string, model: string, dimension: number): Promise<Partition> {
+    const collection = await this.getCollection();
+    // Read the revision first, so changes made while building show up as a newer one
+    const revision = await this.getRevision(uid);
+    const documentCount = await collection.countDocuments({ uid });
+    const current = this.partitions.get(uid);
+
+    if (
+      current &&
+      current.model === model &&
+      current.index.dimension === dimension &&
+      current.documentCount === documentCount &&
+      current.revision === revision
+    ) {
+      this.keep(current);
+
+      return current;
+    }
+
+    // Share one build between concurrent searches of the same uid
+    let pending = this.loading.get(uid);
+
+    if (!pending) {
+      pending = (async () => {
+        const partition =
+          (await this.readSnapshot(uid, model, dimension, documentCount, revision)) ??
+          (await this.build(uid, model, dimension, revision));
+        this.keep(partition);
+
+        return partition;
+      })().finally(() => this.loading.delete(uid));
+      this.loading.set(uid, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Return the chunk uuids of a uid nearest to the query vector
+   */
+  async search({ uid, vector, model, topK }: VectorIndexQuery): Promise<HnswMatch[]> {
+    const partition = await this.getPartition(uid, model, vector.length);
+
+    return partition.index.search(vector, topK);
+  }
+
+  /**
+   * Drop the partition of a uid after changes it cannot follow; it is rebuilt from the
+   * collection when next searched, here and on other replicas
+   */
+  async invalidate(uid: string): Promise<void> {
+    this.partitions.delete(uid);
+    await this.recordChange(uid);
+  }
+
+  /**
+   * Add stored chunks to the partition of their uid, when it is loaded
+   */
+  async add(uid: string, documents: RAGDocument[]): Promise<void> {
+    const partition = this.partitions.get(uid);
+
+    if (!partition) {
+      await this.recordChange(uid);
+
+      return;
+    }
+
+    for (const document of documents) {
+      partition.documentCount++;
+
+      if (
+        isIndexable(
+          document.metadata,
+          document.embedding,
+          partition.model,
+          partition.index.dimension,
+        )
+      ) {
+        partition.index.add(document.uuid, document.embedding);
+      }
+    }
+
+    partition.dirty = true;
+    this.scheduleSnapshots();
+    await this.recordChange(uid);
+  }
+
+  /**
+   * Remove deleted chunks from the partition of their uid, when it is loaded
+   * Uuids are only needed when the partition is loaded; see has()
+   */
+  async remove(uid: string, uuids: string[]): Promise<void> {
+    const partition = this.partitions.get(uid);
+
+    if (!partition) {
+      await this.recordChange(uid);
+
+      return;
+    }
+
+    for (const uuid of uuids) {
+      partition.index.remove(uuid);
+    }
+
+    partition.documentCount = Math.max(partition.documentCount - uuids.length, 0);
+    partition.dirty = true;
+    this.scheduleSnapshots();
+    await this.recordChange(uid);
+  }
+
+  /**
+   * Follow the chunks of one uid that were moved to another uid
+   * Loaded partitions are merged; otherwise the target is rebuilt when next searched
+   */
+  async move(fromUid: string, toUid: string): Promise<void> {
+    const source = this.partitions.get(fromUid);
+    const target = this.partitions.get(toUid);
+    this.partitions.delete(fromUid);
+
+    if (
+      target &&
+      (!source ||
+        source.model !== target.model ||
+        source.index.dimension !== target.index.dimension)
+    ) {
+      this.partitions.delete(toUid);
+    } else if (target && source) {
+      for (const [uuid, vector] of source.index.entries()) {
+        target.index.add(uuid, vector);
+      }
+
+      target.documentCount += source.documentCount;
+      target.dirty = true;
+      this.scheduleSnapshots();
+    }
+
+    await this.recordChange(toUid);
+
+    try {
+      const revisions = await this.getRevisions();
+      await revisions.deleteOne({ _id: fromUid });
+    } catch (error) {
+      logger.warn(`Could not drop the vector index revision of ${fromUid}: ${error}`);
+    }
+  }
+}
+
+let sharedIndex: KnowledgeVectorIndex | null = null;
+
+/**
+ * Get the vector index shared by the RAG builders and knowledge searches of this process
+ *
+ * KNOWLEDGE_ANN_SNAPSHOT_DIR sets where snapshots are written ("off" disables them)
+ * and KNOWLEDGE_ANN_MAX_PARTITIONS how many uids are kept in memory.
+ */
+export function getKnowledgeVectorIndex(): KnowledgeVectorIndex {
+  if (!sharedIndex) {
+    const snapshotDir = process.env.KNOWLEDGE_ANN_SNAPSHOT_DIR;
+
+    sharedIndex = new KnowledgeVectorIndex({
+      databaseName: process.env.DATABASE_NAME || 'nfa',
+      collectionName: process.env.DATABASE_COLLECTION || 'knowledges',
+      snapshotDir: snapshotDir === 'off' ? null : snapshotDir || undefined,
+      maxPartitions: parseInt(process.env.KNOWLEDGE_ANN_MAX_PARTITIONS || '100', 10),
+    });
+  }
+
+  return sharedIndex;
+}
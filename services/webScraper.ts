@@ -1,73 +1,425 @@
 /**
  * Web Scraper
  * Scrapes web pages and extracts content
+ *
+ * Features:
+ * - Exact URL scraping, or crawling of same-origin links up to a depth and page limit
+ * - sitemap.xml discovery when crawling
+ * - robots.txt rules (Allow, Disallow, Crawl-delay and Sitemap) are respected when crawling
+ * - Readability-style main content extraction (see contentExtractor)
+ * - Per-page report of what was scraped, skipped or failed, with the reason and HTTP status
  */
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
-import { createScopedLogger } from '../utils';
+import { CrawlOptions, CrawledPage } from '../models';
+import { createScopedLogger, sleep } from '../utils';
+import { extractReadableContent } from './contentExtractor';
 
 const logger = createScopedLogger('services/webScraper');
 
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+
+// Links to files that are not web pages
+const NON_PAGE_EXTENSIONS =
+  /\.(pdf|docx?|xlsx?|pptx?|zip|gz|jpe?g|png|gif|svg|webp|ico|mp3|mp4|webm|css|js|json|xml)$/i;
+
+const MAX_NESTED_SITEMAPS = 10;
+const MAX_CRAWL_DELAY_MS = 10000;
+
+export type { CrawlOptions, CrawledPage, CrawledPageStatus } from '../models';
+
 interface ScraperOptions {
   urls?: string[];
   outputFile?: string;
+  crawl?: CrawlOptions; // Follow same-origin links instead of only fetching `urls`
+}
+
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelayMs: number;
+  sitemaps: string[];
+}
+
+// Successful response other than 200 OK, e.g. 204 No Content
+class HttpStatusError extends Error {
+  statusCode: number;
+
+  constructor(statusCode: number) {
+    super(`HTTP ${statusCode}`);
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * HTTP status of a failed request, when a response was received
+ */
+function getErrorStatusCode(error: unknown): number | undefined {
+  if (error instanceof HttpStatusError) {
+    return error.statusCode;
+  }
+
+  return axios.isAxiosError(error) ? error.response?.status : undefined;
+}
+
+/**
+ * Validate crawl options and fill in the defaults
+ */
+export function resolveCrawlOptions(options: CrawlOptions = {}): Required<CrawlOptions> {
+  const maxDepth = options.maxDepth ?? 2;
+  const maxPages = options.maxPages ?? 50;
+
+  if (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > 5) {
+    throw new Error('maxDepth must be an integer between 0 and 5');
+  }
+
+  if (!Number.isInteger(maxPages) || maxPages < 1 || maxPages > 500) {
+    throw new Error('maxPages must be an integer between 1 and 500');
+  }
+
+  return {
+    maxDepth,
+    maxPages,
+    sitemap: options.sitemap ?? true,
+    robots: options.robots ?? true,
+  };
+}
+
+/**
+ * Resolve a link against a page URL, dropping fragments
+ * Returns null for links that are not http(s) pages
+ */
+function normalizeUrl(href: string, base?: string): string | null {
+  try {
+    const url = new URL(href, base);
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+
+    url.hash = '';
+
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the robots.txt rules that apply to all crawlers (`User-agent: *`)
+ */
+function parseRobots(text: string): RobotsRules {
+  const rules: RobotsRules = { allow: [], disallow: [], crawlDelayMs: 0, sitemaps: [] };
+  let groupAgents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+
+    if (separator === -1) {
+      continue;
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      rules.sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      // A user-agent line after rules starts a new group
+      if (inRules) {
+        groupAgents = [];
+        inRules = false;
+      }
+
+      groupAgents.push(value);
+      continue;
+    }
+
+    inRules = true;
+
+    if (!groupAgents.includes('*')) {
+      continue;
+    }
+
+    if (field === 'allow' && value) {
+      rules.allow.push(value);
+    } else if (field === 'disallow' && value) {
+      rules.disallow.push(value);
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (!Number.isNaN(seconds) && seconds > 0) {
+        rules.crawlDelayMs = Math.min(seconds * 1000, MAX_CRAWL_DELAY_MS);
+      }
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Length of the robots.txt pattern match against a path, or -1 if it does not match
+ * Supports the `*` wildcard and the `$` end anchor
+ */
+function matchRobotsPattern(pattern: string, urlPath: string): number {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(urlPath) ? pattern.length : -1;
+}
+
+/**
+ * Whether robots.txt allows fetching a URL
+ * The longest matching rule wins; Allow wins ties
+ */
+function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const urlPath = `${pathname}${search}`;
+  const longest = (patterns: string[]) =>
+    Math.max(-1, ...patterns.map((pattern) => matchRobotsPattern(pattern, urlPath)));
+
+  return longest(rules.allow) >= longest(rules.disallow);
 }
 
 export class WebScraper {
   private urlsToScrape: string[];
   private visitedUrls: Set<string>;
   private content: string[];
+  private pages: CrawledPage[];
   private outputFile: string;
+  private crawl: Required<CrawlOptions> | undefined;
+  private robots: Map<string, RobotsRules>;
 
   constructor(options: ScraperOptions = {}) {
     this.urlsToScrape = options.urls ?? [];
     this.visitedUrls = new Set<string>();
     this.content = [];
+    this.pages = [];
     this.outputFile = options.outputFile ?? path.join(__dirname, '../data/raw_data.txt');
+    this.crawl = options.crawl && resolveCrawlOptions(options.crawl);
+    this.robots = new Map<string, RobotsRules>();
   }
 
   /**
-   * Fetch a single page and extract its content
+   * Fetch a URL as text
    */
-  private async fetchPage(url: string): Promise<string> {
-    try {
-      const response = await axios.get(url, {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        },
-      });
+  private async fetchText(
+    url: string,
+  ): Promise<{ body: string; contentType: string; statusCode: number }> {
+    const response = await axios.get(url, {
+      timeout: 10000,
+      responseType: 'text',
+      headers: {
+        'User-Agent': USER_AGENT,
+      },
+    });
 
-      if (response.status !== 200) {
-        logger.warn(`Failed to fetch ${url}: ${response.status}`);
+    if (response.status !== 200) {
+      throw new HttpStatusError(response.status);
+    }
 
-        return '';
+    return {
+      body: String(response.data),
+      contentType: String(response.headers['content-type'] ?? ''),
+      statusCode: response.status,
+    };
+  }
+
+  /**
+   * Collect the same-origin page links of a page
+   */
+  private extractLinks($: cheerio.CheerioAPI, pageUrl: string): string[] {
+    const origin = new URL(pageUrl).origin;
+    const links = new Set<string>();
+
+    $('a[href]').each((_index, element) => {
+      const link = normalizeUrl($(element).attr('href') ?? '', pageUrl);
+
+      if (link && new URL(link).origin === origin && !NON_PAGE_EXTENSIONS.test(link)) {
+        links.add(link);
       }
+    });
 
-      const $ = cheerio.load(response.data);
+    return [...links];
+  }
 
-      // Extract the main content
-      const mainContent = $('main');
-      if (mainContent.length === 0) {
-        return '';
+  /**
+   * Get the robots.txt rules of an origin, fetching them once per scrape
+   * A missing or unreadable robots.txt allows everything
+   */
+  private async getRobots(origin: string): Promise<RobotsRules> {
+    let rules = this.robots.get(origin);
+
+    if (!rules) {
+      try {
+        const { body } = await this.fetchText(`${origin}/robots.txt`);
+        rules = parseRobots(body);
+      } catch {
+        rules = { allow: [], disallow: [], crawlDelayMs: 0, sitemaps: [] };
       }
 
-      // Remove unwanted elements
-      mainContent.find('nav, footer, header, script, style').remove();
+      this.robots.set(origin, rules);
+    }
+
+    return rules;
+  }
+
+  /**
+   * Read the page URLs listed in the sitemaps of an origin
+   * Follows one level of sitemap index files
+   */
+  private async readSitemaps(origin: string, sitemapUrls: string[]): Promise<string[]> {
+    const queue = sitemapUrls.length > 0 ? [...sitemapUrls] : [`${origin}/sitemap.xml`];
+    const pages: string[] = [];
+    let fetched = 0;
+
+    while (queue.length > 0 && fetched < MAX_NESTED_SITEMAPS) {
+      const sitemapUrl = queue.shift()!;
+      fetched++;
+
+      try {
+        const { body } = await this.fetchText(sitemapUrl);
+        const $ = cheerio.load(body, { xmlMode: true });
+        const isIndex = $('sitemapindex').length > 0;
+
+        $('loc').each((_index, element) => {
+          const url = normalizeUrl($(element).text().trim());
+
+          if (url && new URL(url).origin === origin) {
+            (isIndex ? queue : pages).push(url);
+          }
+        });
+      } catch (error) {
+        logger.warn(`Could not read sitemap ${sitemapUrl}: ${error}`);
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * Fetch a single page and extract its content and links
+   */
+  private async fetchPage(
+    url: string,
+  ): Promise<{ text: string; links: string[]; statusCode: number }> {
+    const { body, contentType, statusCode } = await this.fetchText(url);
+
+    if (contentType && !contentType.includes('html')) {
+      throw new Error(`Not an HTML page (${contentType})`);
+    }
+
+    const $ = cheerio.load(body);
+    // Collect links before extraction strips the navigation
+    const links = this.crawl ? this.extractLinks($, url) : [];
+
+    return { text: extractReadableContent($), links, statusCode };
+  }
 
-      // Clean up the text
-      let text = mainContent.text();
-      // Remove excessive newlines
-      text = text.replace(/\n\s*\n/g, '\n\n');
+  /**
+   * Scrape one page and record it in the page report
+   * Returns the links found on the page
+   */
+  private async scrapePage(url: string, depth: number): Promise<string[]> {
+    try {
+      const { text, links, statusCode } = await this.fetchPage(url);
 
-      return text.trim();
+      if (text) {
+        this.content.push(`Content from ${url}:\n\n${text}\n\n`);
+        this.pages.push({ url, depth, status: 'scraped', characters: text.length, statusCode });
+      } else {
+        logger.warn(`No readable content found on ${url}`);
+        this.pages.push({
+          url,
+          depth,
+          status: 'failed',
+          reason: 'No readable content found on the page',
+          statusCode,
+        });
+      }
+
+      return links;
     } catch (error) {
       logger.error(`Error fetching ${url}: ${error}`);
+      const statusCode = getErrorStatusCode(error);
+      this.pages.push({
+        url,
+        depth,
+        status: 'failed',
+        reason: error instanceof Error ? error.message : String(error),
+        ...(statusCode !== undefined && { statusCode }),
+      });
 
-      return '';
+      return [];
+    }
+  }
+
+  /**
+   * Crawl the start URLs breadth-first, following same-origin links
+   */
+  private async crawlSites(options: Required<CrawlOptions>): Promise<void> {
+    const queue: { url: string; depth: number }[] = [];
+    const queued = new Set<string>();
+
+    const enqueue = (url: string, depth: number) => {
+      if (!queued.has(url) && !this.visitedUrls.has(url)) {
+        queued.add(url);
+        queue.push({ url, depth });
+      }
+    };
+
+    const seeds = this.urlsToScrape
+      .map((url) => normalizeUrl(url))
+      .filter((url): url is string => url !== null);
+    seeds.forEach((url) => enqueue(url, 0));
+
+    if (options.sitemap && options.maxDepth > 0) {
+      for (const origin of new Set(seeds.map((url) => new URL(url).origin))) {
+        const robots = options.robots ? await this.getRobots(origin) : undefined;
+        const sitemapPages = await this.readSitemaps(origin, robots?.sitemaps ?? []);
+        sitemapPages.forEach((url) => enqueue(url, 1));
+      }
+    }
+
+    let fetched = 0;
+
+    while (queue.length > 0 && fetched < options.maxPages) {
+      const { url, depth } = queue.shift()!;
+
+      if (this.visitedUrls.has(url)) {
+        continue;
+      }
+
+      this.visitedUrls.add(url);
+
+      const robots = options.robots ? await this.getRobots(new URL(url).origin) : undefined;
+
+      if (robots && !isAllowedByRobots(robots, url)) {
+        this.pages.push({ url, depth, status: 'skipped', reason: 'Disallowed by robots.txt' });
+        continue;
+      }
+
+      if (fetched > 0 && robots?.crawlDelayMs) {
+        await sleep(robots.crawlDelayMs);
+      }
+
+      fetched++;
+      const links = await this.scrapePage(url, depth);
+
+      if (depth < options.maxDepth) {
+        links.forEach((link) => enqueue(link, depth + 1));
+      }
     }
   }
 
@@ -75,6 +427,12 @@ export class WebScraper {
    * Main scraping function
    */
   async scrape(): Promise<void> {
+    if (this.crawl) {
+      await this.crawlSites(this.crawl);
+
+      return;
+    }
+
     // Process each URL
     for (const url of this.urlsToScrape) {
       if (this.visitedUrls.has(url)) {
@@ -82,11 +440,7 @@ export class WebScraper {
       }
 
       this.visitedUrls.add(url);
-
-      const content = await this.fetchPage(url);
-      if (content) {
-        this.content.push(`Content from ${url}:\n\n${content}\n\n`);
-      }
+      await this.scrapePage(url, 0);
     }
   }
 
@@ -108,4 +462,24 @@ export class WebScraper {
   getContent(): string {
     return this.content.join('\n');
   }
+
+  /**
+   * Get the report of every page that was scraped, skipped or failed
+   */
+  getPages(): CrawledPage[] {
+    return this.pages;
+  }
+
+  /**
+   * Explain why a scrape produced no content, from the page report
+   */
+  getFailureReason(): string {
+    const failed = this.pages.filter((page) => page.status !== 'scraped');
+
+    if (this.pages.length === 1 && failed.length === 1) {
+      return failed[0].reason ?? 'No content could be extracted from the page';
+    }
+
+    return `No content could be extracted from any of the ${this.pages.length} pages`;
+  }
 }
@@ -1 +1,2 @@
+export * from './async';
 export * from './logger';